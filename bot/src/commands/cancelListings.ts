@@ -0,0 +1,133 @@
+import { getAddress, isAddress } from "viem";
+
+import { cancelAllListings, cancelListing } from "../services/listingCancellation.js";
+import { openStateStore } from "../state/openStateStore.js";
+import { publicClient } from "../treasuryClient.js";
+import type { Address } from "../types.js";
+import { confirm } from "../utils/prompt.js";
+
+/**
+ * Takes treasury listings down.
+ *
+ *   pnpm listings:cancel <orderHash> [<orderHash> ...] [--yes]
+ *   pnpm listings:cancel --all [--protocol <seaportAddress>] [--yes]
+ *
+ * Single orders are cancelled with Seaport `cancel`; --all increments the treasury's counter on
+ * every Seaport deployment that has tracked listings (or only on --protocol). Cancelled tokens
+ * are moved to unlisted inventory. Stop the bot first so both processes do not write state.
+ */
+
+interface CancelArgs {
+  readonly orderHashes: readonly string[];
+  readonly all: boolean;
+  readonly protocol: Address | null;
+  readonly yes: boolean;
+}
+
+async function main(): Promise<void> {
+  const args = parseArgs(process.argv.slice(2));
+  const stateStore = await openStateStore(await publicClient.getBlockNumber());
+
+  try {
+    const listings = stateStore.getState().activeListings;
+
+    if (args.all) {
+      const protocols = args.protocol
+        ? [args.protocol]
+        : [...new Set(listings.map((listing) => getAddress(listing.protocolAddress)))];
+      if (protocols.length === 0) {
+        console.log("No tracked listings; pass --protocol to increment a counter anyway.");
+        return;
+      }
+
+      for (const protocol of protocols) {
+        const affected = listings.filter(
+          (listing) => listing.protocolAddress.toLowerCase() === protocol.toLowerCase()
+        );
+        console.log(`Seaport ${protocol}: ${affected.length} tracked listing(s) will be invalidated`);
+      }
+      if (!args.yes && !(await confirm("Increment the treasury counter? Type 'yes': "))) {
+        console.log("Aborted; nothing was sent.");
+        return;
+      }
+
+      for (const protocol of protocols) {
+        const result = await cancelAllListings(stateStore, protocol);
+        console.log(
+          `Counter incremented on ${protocol} in ${result.txHash}; removed ${result.cancelledOrderHashes.length} listing(s)`
+        );
+      }
+      return;
+    }
+
+    for (const orderHash of args.orderHashes) {
+      const listing = listings.find(
+        (candidate) => candidate.orderHash.toLowerCase() === orderHash.toLowerCase()
+      );
+      if (!listing) {
+        throw new Error(`No active listing with order hash ${orderHash}`);
+      }
+      console.log(`${orderHash}: ${listing.collection} #${listing.tokenId}`);
+    }
+    if (!args.yes && !(await confirm("Cancel these listings? Type 'yes': "))) {
+      console.log("Aborted; nothing was sent.");
+      return;
+    }
+
+    for (const orderHash of args.orderHashes) {
+      const result = await cancelListing(stateStore, orderHash);
+      console.log(
+        result.cancelledOrderHashes.length > 0
+          ? `Cancelled ${orderHash} in ${result.txHash}`
+          : `Cancelled ${orderHash} in ${result.txHash}; it had already filled`
+      );
+    }
+  } finally {
+    stateStore.close();
+  }
+}
+
+function parseArgs(argv: readonly string[]): CancelArgs {
+  const orderHashes: string[] = [];
+  let all = false;
+  let protocol: Address | null = null;
+  let yes = false;
+
+  for (let index = 0; index < argv.length; index += 1) {
+    const arg = argv[index]!;
+    switch (arg) {
+      case "--all":
+        all = true;
+        break;
+      case "--protocol": {
+        const value = argv[++index];
+        if (!value || !isAddress(value)) {
+          throw new Error("--protocol requires a Seaport contract address");
+        }
+        protocol = getAddress(value);
+        break;
+      }
+      case "--yes":
+        yes = true;
+        break;
+      default:
+        if (!/^0x[0-9a-fA-F]{64}$/.test(arg)) {
+          throw new Error(`Unknown argument: ${arg}`);
+        }
+        orderHashes.push(arg);
+    }
+  }
+
+  if (all === (orderHashes.length > 0)) {
+    throw new Error(
+      "Usage: listings:cancel <orderHash>... [--yes] | listings:cancel --all [--protocol <address>] [--yes]"
+    );
+  }
+
+  return { orderHashes, all, protocol, yes };
+}
+
+main().catch((error) => {
+  console.error("Listing cancellation failed:", error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,249 @@
+import { writeFile } from "node:fs/promises";
+
+import { CHAIN_ID, OPENSEA_API_KEY, OPENSEA_API_URL } from "../config.js";
+import { getSeaport } from "../marketplaces/openseaClients.js";
+import { validateOrderOnchain } from "../marketplaces/openseaListings.js";
+import {
+  fetchListingFromOpenSea,
+  postListingToOpenSea
+} from "../marketplaces/openseaOrderbook.js";
+import { openStateStore } from "../state/openStateStore.js";
+import type { StateStore } from "../state/stateStore.js";
+import { operatorAccount, publicClient } from "../treasuryClient.js";
+import type { ActiveListingState, SignedListingOrder } from "../types.js";
+import { stringifyForStorage } from "../utils/serialize.js";
+
+/**
+ * Works with the signed orders stored for treasury listings.
+ *
+ *   pnpm listings:orders show [<orderHash>]
+ *   pnpm listings:orders export [<orderHash>] [--out <file>]
+ *   pnpm listings:orders repost <orderHash>
+ *   pnpm listings:orders revalidate <orderHash>
+ *   pnpm listings:orders import
+ *
+ * `import` recovers orders for listings created before orders were stored, provided they were
+ * posted to OpenSea. Stop the bot before running commands that change state.
+ */
+
+const USAGE =
+  "Usage: listings:orders <show|export|repost|revalidate|import> [<orderHash>] [--out <file>]";
+
+async function main(): Promise<void> {
+  const [command, ...rest] = process.argv.slice(2);
+  const outIndex = rest.indexOf("--out");
+  const outFile = outIndex >= 0 ? rest[outIndex + 1] ?? null : null;
+  if (outIndex >= 0 && !outFile) {
+    throw new Error("--out requires a file path");
+  }
+  const orderHash =
+    rest.find(
+      (arg, index) => !arg.startsWith("--") && (outIndex < 0 || index !== outIndex + 1)
+    ) ?? null;
+
+  const stateStore = await openStateStore(await publicClient.getBlockNumber());
+  try {
+    switch (command) {
+      case "show":
+        showOrders(stateStore, orderHash);
+        break;
+      case "export":
+        await exportOrders(stateStore, orderHash, outFile);
+        break;
+      case "repost":
+        await repostOrder(stateStore, requireOrderHash(orderHash));
+        break;
+      case "revalidate":
+        await revalidateOrder(stateStore, requireOrderHash(orderHash));
+        break;
+      case "import":
+        await importOrders(stateStore);
+        break;
+      default:
+        throw new Error(USAGE);
+    }
+  } finally {
+    stateStore.close();
+  }
+}
+
+function showOrders(stateStore: StateStore, orderHash: string | null): void {
+  if (orderHash) {
+    const order = requireStoredOrder(stateStore, orderHash);
+    console.log(JSON.stringify(JSON.parse(stringifyForStorage(order)), null, 2));
+    return;
+  }
+
+  const listings = stateStore.getState().activeListings;
+  if (listings.length === 0) {
+    console.log("No active listings.");
+    return;
+  }
+
+  for (const listing of listings) {
+    const order = stateStore.getListingOrder(listing.orderHash);
+    console.log(`${listing.orderHash}`);
+    console.log(`  token:     ${listing.collection} #${listing.tokenId} (${listing.tokenStandard})`);
+    console.log(`  seaport:   ${listing.protocolAddress}`);
+    console.log(`  posted:    ${listing.postedToOpenSea}  validated: ${listing.validatedOnchain}`);
+    console.log(`  filled:    ${listing.filledQuantity.toString()}/${listing.listedQuantity.toString()}`);
+    console.log(`  renewals:  ${listing.renewalCount}`);
+    if (listing.pricingInputs) {
+      const inputs = listing.pricingInputs;
+      console.log(
+        `  cost:      ${inputs.costBasisWei.toString()} + gas ${inputs.gasWei.toString()} wei, minimum price ${inputs.minimumPriceWei.toString()} wei`
+      );
+      console.log(
+        `  market:    floor ${formatOptionalWei(inputs.floorPriceWei)}, best listing ${formatOptionalWei(inputs.bestListingPriceWei)}, median of ${inputs.recentSaleCount} sale(s) ${formatOptionalWei(inputs.recentSaleMedianWei)}`
+      );
+      console.log(
+        `  band:      ${formatOptionalWei(inputs.marketLowerBoundWei)} - ${formatOptionalWei(inputs.marketUpperBoundWei)} (markup price ${inputs.markupPriceWei.toString()} wei)`
+      );
+      console.log(`  fees:      ${inputs.feeBps} bps from ${inputs.feeSource.replace("_", " ")}`);
+    }
+    if (!order) {
+      console.log("  order:     not stored (run `listings:orders import`)");
+      continue;
+    }
+    const priceWei = order.components.consideration.reduce(
+      (total, item) => total + BigInt(item.startAmount),
+      0n
+    );
+    const endPriceWei = order.components.consideration.reduce(
+      (total, item) => total + BigInt(item.endAmount),
+      0n
+    );
+    console.log(
+      endPriceWei === priceWei
+        ? `  price:     ${priceWei.toString()} wei`
+        : `  price:     ${priceWei.toString()} -> ${endPriceWei.toString()} wei (Dutch auction)`
+    );
+    console.log(`  counter:   ${order.components.counter.toString()}`);
+    console.log(`  starts:    ${formatTimestamp(order.components.startTime)}`);
+    console.log(`  ends:      ${formatTimestamp(order.components.endTime)}`);
+  }
+}
+
+async function exportOrders(
+  stateStore: StateStore,
+  orderHash: string | null,
+  outFile: string | null
+): Promise<void> {
+  const orders = orderHash
+    ? [requireStoredOrder(stateStore, orderHash)]
+    : stateStore.listListingOrders();
+  const json = JSON.stringify(JSON.parse(stringifyForStorage(orders)), null, 2);
+
+  if (!outFile) {
+    console.log(json);
+    return;
+  }
+  await writeFile(outFile, `${json}\n`, "utf8");
+  console.log(`Exported ${orders.length} order(s) to ${outFile}`);
+}
+
+async function repostOrder(stateStore: StateStore, orderHash: string): Promise<void> {
+  const order = requireStoredOrder(stateStore, orderHash);
+  await postListingToOpenSea(
+    {
+      apiUrl: OPENSEA_API_URL,
+      apiKey: OPENSEA_API_KEY,
+      chainId: CHAIN_ID ?? 8453,
+      taker: operatorAccount.address
+    },
+    order.protocolAddress,
+    order.components,
+    order.signature
+  );
+  await updateListing(stateStore, orderHash, { postedToOpenSea: true });
+  console.log(`Re-posted ${orderHash} to OpenSea`);
+}
+
+async function revalidateOrder(stateStore: StateStore, orderHash: string): Promise<void> {
+  const order = requireStoredOrder(stateStore, orderHash);
+  await validateOrderOnchain(order.components, order.protocolAddress, order.orderHash, order.signature);
+  await updateListing(stateStore, orderHash, { validatedOnchain: true });
+  console.log(`Validated ${orderHash} on-chain`);
+}
+
+async function importOrders(stateStore: StateStore): Promise<void> {
+  let imported = 0;
+  for (const listing of stateStore.getState().activeListings) {
+    if (stateStore.getListingOrder(listing.orderHash)) {
+      continue;
+    }
+    if (!listing.postedToOpenSea) {
+      console.log(`${listing.orderHash}: not posted to OpenSea; cannot recover`);
+      continue;
+    }
+
+    try {
+      const fetched = await fetchListingFromOpenSea(listing.orderHash, listing.protocolAddress);
+      const hash = getSeaport(listing.protocolAddress).getOrderHash(fetched.parameters);
+      if (hash.toLowerCase() !== listing.orderHash.toLowerCase()) {
+        console.log(`${listing.orderHash}: OpenSea returned an order hashing to ${hash}; skipped`);
+        continue;
+      }
+      const order: SignedListingOrder = {
+        orderHash: listing.orderHash,
+        protocolAddress: listing.protocolAddress,
+        components: fetched.parameters,
+        signature: fetched.signature,
+        createdAtMs: listing.listedAtMs
+      };
+      stateStore.recordListingOrder(order);
+      imported += 1;
+      console.log(`${listing.orderHash}: imported`);
+    } catch (error) {
+      console.log(
+        `${listing.orderHash}: lookup failed (${error instanceof Error ? error.message : String(error)})`
+      );
+    }
+  }
+  console.log(`Imported ${imported} order(s)`);
+}
+
+async function updateListing(
+  stateStore: StateStore,
+  orderHash: string,
+  changes: Partial<Pick<ActiveListingState, "postedToOpenSea" | "validatedOnchain">>
+): Promise<void> {
+  const orderHashLower = orderHash.toLowerCase();
+  const state = stateStore.getState();
+  if (!state.activeListings.some((listing) => listing.orderHash.toLowerCase() === orderHashLower)) {
+    return;
+  }
+  state.activeListings = state.activeListings.map((listing) =>
+    listing.orderHash.toLowerCase() === orderHashLower ? { ...listing, ...changes } : listing
+  );
+  await stateStore.save();
+}
+
+function requireStoredOrder(stateStore: StateStore, orderHash: string): SignedListingOrder {
+  const order = stateStore.getListingOrder(orderHash);
+  if (!order) {
+    throw new Error(`No stored order for ${orderHash}`);
+  }
+  return order;
+}
+
+function requireOrderHash(orderHash: string | null): string {
+  if (!orderHash) {
+    throw new Error(USAGE);
+  }
+  return orderHash;
+}
+
+function formatOptionalWei(value: bigint | null): string {
+  return value === null ? "n/a" : `${value.toString()} wei`;
+}
+
+function formatTimestamp(value: SignedListingOrder["components"]["startTime"]): string {
+  const seconds = Number(value.toString());
+  return `${new Date(seconds * 1000).toISOString()} (${seconds})`;
+}
+
+main().catch((error) => {
+  console.error("Listing order command failed:", error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
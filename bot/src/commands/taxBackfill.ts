@@ -0,0 +1,229 @@
+import { TOKEN_ADDRESS } from "../config.js";
+import { fetchTaxEvents } from "../services/taxCollector.js";
+import {
+  getPoolBalance,
+  replaceTaxAllocations,
+  sumAllocationsByPool
+} from "../services/taxRouting.js";
+import { openStateStore } from "../state/openStateStore.js";
+import { publicClient } from "../treasuryClient.js";
+import type { Address, TaxLedgerEntry, TaxPool } from "../types.js";
+import { scanLogsAdaptively } from "../utils/logScanner.js";
+import { confirm } from "../utils/prompt.js";
+
+/**
+ * Rescans WalletTaxSent events for a block range and compares them with the tax ledger.
+ *
+ *   pnpm tax:backfill --from <block|deployment> [--to <block>] [--apply] [--yes]
+ *
+ * Without --apply this only prints a report. With --apply the ledger rows in the range are
+ * replaced with the rescanned events and each pool is adjusted by the difference, using the
+ * currently configured tax routes for the rescanned events. Under DRY_RUN it applies to the
+ * shadow state only.
+ * Stop the bot before applying so the two processes do not write the pool concurrently.
+ */
+
+const TAX_POOLS: readonly TaxPool[] = ["purchase", "buyback", "reserve", "operations"];
+
+interface BackfillArgs {
+  readonly from: bigint | "deployment";
+  readonly to: bigint | null;
+  readonly apply: boolean;
+  readonly yes: boolean;
+}
+
+async function main(): Promise<void> {
+  if (!TOKEN_ADDRESS) {
+    throw new Error("TOKEN_ADDRESS must be configured to backfill tax revenue");
+  }
+
+  const args = parseArgs(process.argv.slice(2));
+  const latestBlock = await publicClient.getBlockNumber();
+  const stateStore = await openStateStore(latestBlock);
+  const state = stateStore.getState();
+
+  // Blocks past lastTaxBlock belong to the live collector, which checkpoints them itself.
+  const toBlock = args.to ?? state.lastTaxBlock;
+  if (toBlock > state.lastTaxBlock) {
+    throw new Error(
+      `--to ${toBlock.toString()} is beyond lastTaxBlock ${state.lastTaxBlock.toString()}; the running collector owns those blocks`
+    );
+  }
+
+  const fromBlock =
+    args.from === "deployment" ? await findDeploymentBlock(TOKEN_ADDRESS, toBlock) : args.from;
+  if (fromBlock > toBlock) {
+    throw new Error(`--from ${fromBlock.toString()} is after --to ${toBlock.toString()}`);
+  }
+
+  console.log(`Rescanning WalletTaxSent on ${TOKEN_ADDRESS}`);
+  console.log(`Block range: ${fromBlock.toString()} - ${toBlock.toString()}`);
+
+  const rescanned = await scanLogsAdaptively({
+    label: "tax-backfill",
+    fromBlock,
+    toBlock,
+    fetchRange: fetchTaxEvents
+  });
+  const recorded = stateStore.listTaxEvents(fromBlock, toBlock);
+
+  const rescannedTotals = totalsByTaxId(rescanned);
+  const recordedTotals = totalsByTaxId(recorded);
+  const taxIds = [...new Set([...rescannedTotals.keys(), ...recordedTotals.keys()])].sort(
+    (left, right) => left - right
+  );
+
+  console.log("\ntaxId  events  rescannedWei  ledgerWei  differenceWei");
+  for (const taxId of taxIds) {
+    const rescannedTotal = rescannedTotals.get(taxId) ?? { count: 0, amountWei: 0n };
+    const recordedTotal = recordedTotals.get(taxId) ?? { count: 0, amountWei: 0n };
+    console.log(
+      [
+        taxId,
+        rescannedTotal.count,
+        rescannedTotal.amountWei.toString(),
+        recordedTotal.amountWei.toString(),
+        (rescannedTotal.amountWei - recordedTotal.amountWei).toString()
+      ].join("  ")
+    );
+  }
+
+  const rescannedWei = sumAmounts(rescanned);
+  const recordedWei = sumAmounts(recorded);
+
+  console.log(`\nRescanned total:        ${rescannedWei.toString()} wei (${rescanned.length} events)`);
+  console.log(`Ledger total for range: ${recordedWei.toString()} wei (${recorded.length} events)`);
+  console.log(`Difference:             ${(rescannedWei - recordedWei).toString()} wei`);
+
+  const rescannedByPool = sumAllocationsByPool(rescanned);
+  const recordedByPool = sumAllocationsByPool(recorded);
+  console.log("\npool  storedWei  rescannedWei  ledgerWei  afterRewriteWei");
+  for (const pool of TAX_POOLS) {
+    const stored = getPoolBalance(state, pool);
+    const rescannedPool = rescannedByPool.get(pool) ?? 0n;
+    const recordedPool = recordedByPool.get(pool) ?? 0n;
+    console.log(
+      [
+        pool,
+        stored.toString(),
+        rescannedPool.toString(),
+        recordedPool.toString(),
+        clampToZero(stored + rescannedPool - recordedPool).toString()
+      ].join("  ")
+    );
+  }
+
+  if (!args.apply) {
+    console.log("\nReport only. Re-run with --apply to rewrite the ledger and pool.");
+    stateStore.close();
+    return;
+  }
+
+  if (!args.yes && !(await confirm("Rewrite the tax ledger and pool balances? Type 'yes': "))) {
+    console.log("Aborted; nothing was written.");
+    stateStore.close();
+    return;
+  }
+
+  stateStore.replaceTaxEventsInRange(fromBlock, toBlock, rescanned, (removed, inserted) =>
+    replaceTaxAllocations(state, removed, inserted)
+  );
+  stateStore.close();
+
+  console.log("Ledger rewritten; pool balances are now:");
+  for (const pool of TAX_POOLS) {
+    console.log(`  ${pool}: ${getPoolBalance(state, pool).toString()} wei`);
+  }
+}
+
+function parseArgs(argv: readonly string[]): BackfillArgs {
+  let from: BackfillArgs["from"] | null = null;
+  let to: bigint | null = null;
+  let apply = false;
+  let yes = false;
+
+  for (let index = 0; index < argv.length; index += 1) {
+    const arg = argv[index];
+    switch (arg) {
+      case "--from": {
+        const value = argv[++index];
+        if (!value) {
+          throw new Error("--from requires a block number or 'deployment'");
+        }
+        from = value === "deployment" ? "deployment" : BigInt(value);
+        break;
+      }
+      case "--to": {
+        const value = argv[++index];
+        if (!value) {
+          throw new Error("--to requires a block number");
+        }
+        to = BigInt(value);
+        break;
+      }
+      case "--apply":
+        apply = true;
+        break;
+      case "--yes":
+        yes = true;
+        break;
+      default:
+        throw new Error(`Unknown argument: ${arg}`);
+    }
+  }
+
+  if (from === null) {
+    throw new Error("Usage: tax:backfill --from <block|deployment> [--to <block>] [--apply] [--yes]");
+  }
+
+  return { from, to, apply, yes };
+}
+
+/**
+ * Binary-searches for the first block where the token has code. Requires an RPC that serves
+ * historical state.
+ */
+async function findDeploymentBlock(address: Address, upperBound: bigint): Promise<bigint> {
+  let low = 0n;
+  let high = upperBound;
+
+  while (low < high) {
+    const middle = (low + high) / 2n;
+    const code = await publicClient.getBytecode({ address, blockNumber: middle });
+    if (code && code !== "0x") {
+      high = middle;
+    } else {
+      low = middle + 1n;
+    }
+  }
+
+  console.log(`Token deployment block: ${low.toString()}`);
+  return low;
+}
+
+function totalsByTaxId(
+  entries: readonly TaxLedgerEntry[]
+): Map<number, { count: number; amountWei: bigint }> {
+  const totals = new Map<number, { count: number; amountWei: bigint }>();
+  for (const entry of entries) {
+    const current = totals.get(entry.taxId) ?? { count: 0, amountWei: 0n };
+    totals.set(entry.taxId, {
+      count: current.count + 1,
+      amountWei: current.amountWei + entry.amountWei
+    });
+  }
+  return totals;
+}
+
+function sumAmounts(entries: readonly TaxLedgerEntry[]): bigint {
+  return entries.reduce((total, entry) => total + entry.amountWei, 0n);
+}
+
+function clampToZero(value: bigint): bigint {
+  return value > 0n ? value : 0n;
+}
+
+main().catch((error) => {
+  console.error("Tax backfill failed:", error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
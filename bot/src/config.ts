@@ -1,7 +1,7 @@
 import { config as loadEnv } from "dotenv";
 import { z } from "zod";
 
-import type { Address, Hex } from "./types.js";
+import type { Address, Hex, TaxPool, TaxRoute, TokenSinkKind } from "./types.js";
 
 loadEnv();
 
@@ -12,6 +12,100 @@ const hexDataRegex = /^0x([a-fA-F0-9]{2})*$/;
 const emptyToUndefined = (value: unknown): unknown =>
   typeof value === "string" && value.trim().length === 0 ? undefined : value;
 
+const parseJson = (value: unknown): unknown => {
+  const normalized = emptyToUndefined(value);
+  if (typeof normalized !== "string") {
+    return normalized;
+  }
+  try {
+    return JSON.parse(normalized) as unknown;
+  } catch {
+    return normalized;
+  }
+};
+
+const parseFlag = (value: string | undefined, fallback: boolean): boolean =>
+  value === undefined ? fallback : !["0", "false"].includes(value.toLowerCase());
+
+const LISTING_PRICING_MODES = ["fixed", "dutch"] as const;
+const BUYBACK_BACKENDS = ["v2", "v3"] as const;
+const MAX_V3_FEE = 1_000_000;
+
+const collectionSettingsSchema = z.object({
+  validateOnchain: z.boolean().optional(),
+  postToOpenSea: z.boolean().optional(),
+  renewalPriceBps: z.number().int().positive().optional(),
+  pricingMode: z.enum(LISTING_PRICING_MODES).optional(),
+  startMarkupBps: z.number().int().positive().optional(),
+  endMarkupBps: z.number().int().positive().optional(),
+  minMarginBps: z.number().int().nonnegative().optional(),
+  marketPricing: z.boolean().optional(),
+  minFloorMultipleBps: z.number().int().nonnegative().optional(),
+  maxFloorMultipleBps: z.number().int().positive().optional()
+});
+
+const TAX_POOLS = ["purchase", "buyback", "reserve", "operations"] as const satisfies readonly TaxPool[];
+const BPS_DENOMINATOR = 10_000;
+
+const taxRouteSchema = z
+  .record(z.enum(TAX_POOLS), z.number().int().positive())
+  .refine(
+    (shares) => Object.values(shares).reduce((total, bps) => total + (bps ?? 0), 0) === BPS_DENOMINATOR,
+    { message: `Tax route shares must add up to ${BPS_DENOMINATOR} bps` }
+  );
+
+const revenueSourceSchema = z.discriminatedUnion("type", [
+  z.object({
+    id: z.string().min(1),
+    type: z.literal("event"),
+    address: z.string().regex(addressRegex),
+    event: z.string().min(1),
+    amountField: z.string().min(1),
+    recipientField: z.string().min(1).optional(),
+    pool: z.enum(TAX_POOLS),
+    startBlock: z.coerce.bigint().positive().optional()
+  }),
+  z.object({
+    id: z.string().min(1),
+    type: z.literal("nativeBalance"),
+    address: z.string().regex(addressRegex).optional(),
+    pool: z.enum(TAX_POOLS),
+    startBlock: z.coerce.bigint().positive().optional()
+  })
+]);
+
+const tokenIdListSchema = z.array(z.coerce.bigint().nonnegative()).optional();
+
+const purchaseRulesSchema = z.object({
+  maxPriceWei: z.coerce.bigint().positive().optional(),
+  maxPoolShareBps: z.number().int().positive().max(BPS_DENOMINATOR).optional(),
+  maxInventory: z.number().int().nonnegative().optional(),
+  allowTokenIds: tokenIdListSchema,
+  denyTokenIds: tokenIdListSchema
+});
+
+const purchasePolicySchema = purchaseRulesSchema.extend({
+  minIntervalMs: z.number().int().nonnegative().optional(),
+  collections: z.record(z.string().regex(addressRegex), purchaseRulesSchema).optional()
+});
+
+const tokenSinkSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("transfer"),
+    to: z.string().regex(addressRegex).optional(),
+    bps: z.number().int().positive()
+  }),
+  z.object({
+    type: z.literal("burn"),
+    bps: z.number().int().positive()
+  })
+]);
+
+const buybackHopSchema = z.object({
+  token: z.string().regex(addressRegex),
+  fee: z.number().int().positive().lt(MAX_V3_FEE).optional()
+});
+
 const envSchema = z.object({
   RPC_URL: z.string().url(),
   TREASURY_ADDRESS: z.string().regex(addressRegex),
@@ -45,14 +139,150 @@ const envSchema = z.object({
     .default("0x000000000000000000000000000000000000dEaD"),
   STATE_FILE: z.preprocess(emptyToUndefined, z.string().optional()),
   STATE_DB_FILE: z.preprocess(emptyToUndefined, z.string().optional()),
+  SHADOW_STATE_DB_FILE: z.preprocess(emptyToUndefined, z.string().optional()),
   LOOP_INTERVAL_MS: z.preprocess(emptyToUndefined, z.coerce.number().int().positive().optional()),
   ACTION_COOLDOWN_MS: z
     .preprocess(emptyToUndefined, z.coerce.number().int().nonnegative().optional()),
+  BLOCKED_ORDER_TTL_MS: z
+    .preprocess(emptyToUndefined, z.coerce.number().int().nonnegative().optional()),
+  PURCHASE_MAX_CANDIDATES: z
+    .preprocess(emptyToUndefined, z.coerce.number().int().positive().optional()),
+  REBUY_COOLDOWN_MS: z
+    .preprocess(emptyToUndefined, z.coerce.number().int().nonnegative().optional()),
+  BUYBACK_BACKEND: z.preprocess(emptyToUndefined, z.enum(BUYBACK_BACKENDS).optional()),
+  BUYBACK_PATH: z.preprocess(parseJson, z.array(buybackHopSchema).min(1).optional()),
+  BUYBACK_V3_FEE: z
+    .preprocess(emptyToUndefined, z.coerce.number().int().positive().lt(MAX_V3_FEE).optional()),
+  BUYBACK_V3_QUOTER_ADDRESS: z
+    .preprocess(emptyToUndefined, z.string().regex(addressRegex).optional()),
   BUYBACK_CHUNK_WEI: z.preprocess(emptyToUndefined, z.coerce.bigint().optional()),
+  TOKEN_SINK: z.preprocess(
+    parseJson,
+    z
+      .array(tokenSinkSchema)
+      .min(1)
+      .refine(
+        (sinks) => sinks.reduce((total, sink) => total + sink.bps, 0) === BPS_DENOMINATOR,
+        { message: `Token sink shares must add up to ${BPS_DENOMINATOR} bps` }
+      )
+      .optional()
+  ),
+  BUYBACK_TWAP_WINDOW_MS: z
+    .preprocess(emptyToUndefined, z.coerce.number().int().nonnegative().optional()),
+  BUYBACK_TWAP_SLICES: z
+    .preprocess(emptyToUndefined, z.coerce.number().int().positive().optional()),
+  BUYBACK_TWAP_JITTER_MS: z
+    .preprocess(emptyToUndefined, z.coerce.number().int().nonnegative().optional()),
+  BUYBACK_MAX_WEI_PER_HOUR: z
+    .preprocess(emptyToUndefined, z.coerce.bigint().positive().optional()),
+  BUYBACK_MIN_CHUNK_WEI: z.preprocess(emptyToUndefined, z.coerce.bigint().nonnegative().optional()),
+  BUYBACK_SLIPPAGE_BPS: z
+    .preprocess(emptyToUndefined, z.coerce.number().int().nonnegative().max(10_000).optional()),
+  BUYBACK_MAX_PRICE_IMPACT_BPS: z
+    .preprocess(emptyToUndefined, z.coerce.number().int().positive().max(10_000).optional()),
+  BUYBACK_V2_FEE_BPS: z
+    .preprocess(emptyToUndefined, z.coerce.number().int().nonnegative().max(10_000).optional()),
+  TOKEN_TRANSFER_TAX_BPS: z
+    .preprocess(emptyToUndefined, z.coerce.number().int().nonnegative().max(10_000).optional()),
   MAX_LISTING_CHECKS_PER_TICK: z
     .preprocess(emptyToUndefined, z.coerce.number().int().positive().optional()),
   LOG_FETCH_THROTTLE_MS: z
-    .preprocess(emptyToUndefined, z.coerce.number().int().nonnegative().optional())
+    .preprocess(emptyToUndefined, z.coerce.number().int().nonnegative().optional()),
+  LOG_INITIAL_SPAN: z.preprocess(emptyToUndefined, z.coerce.bigint().positive().optional()),
+  LOG_MAX_SPAN: z.preprocess(emptyToUndefined, z.coerce.bigint().positive().optional()),
+  LOG_SPAN_LIMITS: z.preprocess(
+    parseJson,
+    z.record(z.string(), z.coerce.bigint().positive()).optional()
+  ),
+  LOG_SPAN_GROW_MAX_RESULTS: z
+    .preprocess(emptyToUndefined, z.coerce.number().int().nonnegative().optional()),
+  LOG_SPAN_GROW_MAX_MS: z
+    .preprocess(emptyToUndefined, z.coerce.number().int().positive().optional()),
+  TAX_CONFIRMATIONS: z.preprocess(emptyToUndefined, z.coerce.bigint().nonnegative().optional()),
+  TAX_ROUTES: z.preprocess(
+    parseJson,
+    z.record(z.string().regex(/^\d+$/), taxRouteSchema).optional()
+  ),
+  OPERATIONS_WALLET_ADDRESS: z
+    .preprocess(emptyToUndefined, z.string().regex(addressRegex).optional()),
+  OPERATIONS_PAYOUT_MIN_WEI: z
+    .preprocess(emptyToUndefined, z.coerce.bigint().nonnegative().optional()),
+  REVENUE_SOURCES: z.preprocess(
+    parseJson,
+    z
+      .array(revenueSourceSchema)
+      .refine((sources) => new Set(sources.map((source) => source.id)).size === sources.length, {
+        message: "Revenue source ids must be unique"
+      })
+      .optional()
+  ),
+  LISTING_DURATION_SECONDS: z
+    .preprocess(emptyToUndefined, z.coerce.number().int().positive().optional()),
+  LISTING_RENEWAL_LEAD_SECONDS: z
+    .preprocess(emptyToUndefined, z.coerce.number().int().nonnegative().optional()),
+  LISTING_MAX_RENEWALS: z
+    .preprocess(emptyToUndefined, z.coerce.number().int().nonnegative().optional()),
+  LISTING_RENEWAL_PRICE_BPS: z
+    .preprocess(emptyToUndefined, z.coerce.number().int().positive().optional()),
+  LISTING_PRICING_MODE: z.preprocess(emptyToUndefined, z.enum(LISTING_PRICING_MODES).optional()),
+  LISTING_START_MARKUP_BPS: z
+    .preprocess(emptyToUndefined, z.coerce.number().int().positive().optional()),
+  LISTING_END_MARKUP_BPS: z
+    .preprocess(emptyToUndefined, z.coerce.number().int().positive().optional()),
+  LISTING_MIN_MARGIN_BPS: z
+    .preprocess(emptyToUndefined, z.coerce.number().int().nonnegative().optional()),
+  LISTING_VALIDATE_GAS_UNITS: z
+    .preprocess(emptyToUndefined, z.coerce.bigint().nonnegative().optional()),
+  LISTING_MARKET_PRICING: z.preprocess(emptyToUndefined, z.string().optional()),
+  LISTING_FLOOR_MIN_MULTIPLE_BPS: z
+    .preprocess(emptyToUndefined, z.coerce.number().int().nonnegative().optional()),
+  LISTING_FLOOR_MAX_MULTIPLE_BPS: z
+    .preprocess(emptyToUndefined, z.coerce.number().int().positive().optional()),
+  VALIDATE_LISTINGS_ONCHAIN: z.preprocess(emptyToUndefined, z.string().optional()),
+  POST_LISTINGS_TO_OPENSEA: z.preprocess(emptyToUndefined, z.string().optional()),
+  COLLECTION_SETTINGS: z.preprocess(
+    parseJson,
+    z.record(z.string().regex(addressRegex), collectionSettingsSchema).optional()
+  ),
+  PURCHASE_POLICY: z.preprocess(parseJson, purchasePolicySchema.optional())
+}).superRefine((values, context) => {
+  const routesToOperations =
+    Object.values(values.TAX_ROUTES ?? {}).some((shares) => shares.operations !== undefined) ||
+    (values.REVENUE_SOURCES ?? []).some((source) => source.pool === "operations");
+  if (routesToOperations && !values.OPERATIONS_WALLET_ADDRESS) {
+    context.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["OPERATIONS_WALLET_ADDRESS"],
+      message: "OPERATIONS_WALLET_ADDRESS is required when revenue is routed to the operations pool"
+    });
+  }
+  const path = values.BUYBACK_PATH;
+  if (path && values.TOKEN_ADDRESS) {
+    const last = path[path.length - 1];
+    if (last.token.toLowerCase() !== values.TOKEN_ADDRESS.toLowerCase()) {
+      context.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["BUYBACK_PATH"],
+        message: "The last BUYBACK_PATH hop must be TOKEN_ADDRESS"
+      });
+    }
+  }
+  if (values.BUYBACK_BACKEND === "v3") {
+    if (!values.BUYBACK_V3_QUOTER_ADDRESS) {
+      context.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["BUYBACK_V3_QUOTER_ADDRESS"],
+        message: "BUYBACK_V3_QUOTER_ADDRESS is required when BUYBACK_BACKEND is v3"
+      });
+    }
+    if (path?.some((hop) => hop.fee === undefined)) {
+      context.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["BUYBACK_PATH"],
+        message: "Every BUYBACK_PATH hop needs a fee tier when BUYBACK_BACKEND is v3"
+      });
+    }
+  }
 });
 
 const env = envSchema.parse(process.env);
@@ -60,8 +290,7 @@ const env = envSchema.parse(process.env);
 export const RPC_URL = env.RPC_URL;
 export const TREASURY_ADDRESS = env.TREASURY_ADDRESS as Address;
 export const OPERATOR_PRIVATE_KEY = env.OPERATOR_PRIVATE_KEY as Hex;
-export const DRY_RUN =
-  env.DRY_RUN === undefined || !["0", "false"].includes(env.DRY_RUN.toLowerCase());
+export const DRY_RUN = parseFlag(env.DRY_RUN, true);
 export const SEAPORT_ROUTER = env.SEAPORT_ROUTER ? (env.SEAPORT_ROUTER as Address) : null;
 export const LOG_LEVEL = env.LOG_LEVEL ?? "info";
 export const CHAIN_ID = env.CHAIN_ID ?? null;
@@ -79,6 +308,19 @@ export const BUYBACK_ROUTER_ADDRESS = env.BUYBACK_ROUTER_ADDRESS
   : null;
 export const WETH_ADDRESS = env.WETH_ADDRESS ? (env.WETH_ADDRESS as Address) : null;
 export const BURN_ADDRESS = env.BURN_ADDRESS as Address;
+/** Where bought-back tokens go; `recipient` is null for `burn`, which calls `burn(uint256)`. */
+export interface TokenSinkConfig {
+  readonly kind: TokenSinkKind;
+  readonly recipient: Address | null;
+  readonly bps: number;
+}
+export const TOKEN_SINK: readonly TokenSinkConfig[] = (
+  env.TOKEN_SINK ?? [{ type: "transfer" as const, bps: BPS_DENOMINATOR }]
+).map((sink) =>
+  sink.type === "burn"
+    ? { kind: "burn", recipient: null, bps: sink.bps }
+    : { kind: "transfer", recipient: (sink.to ?? env.BURN_ADDRESS) as Address, bps: sink.bps }
+);
 const legacyStateFile = env.STATE_FILE ?? "bot-state.json";
 const deriveStateDatabasePath = (legacyPath: string | null): string => {
   if (!legacyPath) {
@@ -93,8 +335,194 @@ const deriveStateDatabasePath = (legacyPath: string | null): string => {
 export const LEGACY_STATE_FILE = legacyStateFile;
 export const STATE_DB_FILE = env.STATE_DB_FILE ?? deriveStateDatabasePath(legacyStateFile);
 export const STATE_FILE = STATE_DB_FILE;
+export const SHADOW_STATE_DB_FILE =
+  env.SHADOW_STATE_DB_FILE ?? STATE_DB_FILE.replace(/(\.db)?$/i, ".shadow.db");
 export const LOOP_INTERVAL_MS = env.LOOP_INTERVAL_MS ?? 15_000;
 export const ACTION_COOLDOWN_MS = env.ACTION_COOLDOWN_MS ?? 5_000;
+export const BLOCKED_ORDER_TTL_MS = env.BLOCKED_ORDER_TTL_MS ?? 7 * 24 * 60 * 60 * 1000;
+export const PURCHASE_MAX_CANDIDATES = env.PURCHASE_MAX_CANDIDATES ?? 20;
+export const REBUY_COOLDOWN_MS = env.REBUY_COOLDOWN_MS ?? 24 * 60 * 60 * 1000;
+export type BuybackBackend = (typeof BUYBACK_BACKENDS)[number];
+export const BUYBACK_BACKEND: BuybackBackend = env.BUYBACK_BACKEND ?? "v2";
+/** One swap hop out of WETH (or the previous hop's token); `fee` is the V3 pool fee tier. */
+export interface BuybackHop {
+  readonly token: Address;
+  readonly fee: number | null;
+}
+/** Hops from WETH to TOKEN_ADDRESS; null swaps WETH directly into the token. */
+export const BUYBACK_PATH: readonly BuybackHop[] | null = env.BUYBACK_PATH
+  ? env.BUYBACK_PATH.map((hop) => ({ token: hop.token as Address, fee: hop.fee ?? null }))
+  : null;
+export const BUYBACK_V3_FEE = env.BUYBACK_V3_FEE ?? 3_000;
+export const BUYBACK_V3_QUOTER_ADDRESS = env.BUYBACK_V3_QUOTER_ADDRESS
+  ? (env.BUYBACK_V3_QUOTER_ADDRESS as Address)
+  : null;
 export const BUYBACK_CHUNK_WEI = env.BUYBACK_CHUNK_WEI ?? null;
+export const BUYBACK_TWAP_WINDOW_MS = env.BUYBACK_TWAP_WINDOW_MS ?? 24 * 60 * 60 * 1000;
+export const BUYBACK_TWAP_SLICES = env.BUYBACK_TWAP_SLICES ?? 24;
+export const BUYBACK_TWAP_JITTER_MS = env.BUYBACK_TWAP_JITTER_MS ?? 5 * 60 * 1000;
+export const BUYBACK_MAX_WEI_PER_HOUR = env.BUYBACK_MAX_WEI_PER_HOUR ?? null;
+export const BUYBACK_MIN_CHUNK_WEI = env.BUYBACK_MIN_CHUNK_WEI ?? 0n;
+export const BUYBACK_SLIPPAGE_BPS = env.BUYBACK_SLIPPAGE_BPS ?? 100;
+export const BUYBACK_MAX_PRICE_IMPACT_BPS = env.BUYBACK_MAX_PRICE_IMPACT_BPS ?? 300;
+export const BUYBACK_V2_FEE_BPS = env.BUYBACK_V2_FEE_BPS ?? 30;
+export const TOKEN_TRANSFER_TAX_BPS = env.TOKEN_TRANSFER_TAX_BPS ?? 0;
 export const MAX_LISTING_CHECKS_PER_TICK = env.MAX_LISTING_CHECKS_PER_TICK ?? 3;
 export const LOG_FETCH_THROTTLE_MS = env.LOG_FETCH_THROTTLE_MS ?? 0;
+export const TAX_CONFIRMATIONS = env.TAX_CONFIRMATIONS ?? 10n;
+export const DEFAULT_TAX_POOL: TaxPool = "purchase";
+export const TAX_ROUTES: readonly TaxRoute[] = Object.entries(env.TAX_ROUTES ?? {})
+  .map(([taxId, shares]) => ({
+    taxId: Number(taxId),
+    shares: Object.entries(shares).map(([pool, bps]) => ({ pool: pool as TaxPool, bps: bps ?? 0 }))
+  }))
+  .sort((left, right) => left.taxId - right.taxId);
+/** Receives the operations pool; the reserve pool has no payout and is only accounted for. */
+export const OPERATIONS_WALLET_ADDRESS = env.OPERATIONS_WALLET_ADDRESS
+  ? (env.OPERATIONS_WALLET_ADDRESS as Address)
+  : null;
+export const OPERATIONS_PAYOUT_MIN_WEI = env.OPERATIONS_PAYOUT_MIN_WEI ?? 10n ** 16n;
+
+const resolveLogSpanLimit = (): bigint => {
+  const host = new URL(env.RPC_URL).hostname.toLowerCase();
+  for (const [provider, limit] of Object.entries(env.LOG_SPAN_LIMITS ?? {})) {
+    const normalized = provider.toLowerCase();
+    if (host === normalized || host.endsWith(`.${normalized}`)) {
+      return limit;
+    }
+  }
+  return env.LOG_MAX_SPAN ?? 2_000n;
+};
+
+export const LOG_MAX_SPAN = resolveLogSpanLimit();
+export const LOG_INITIAL_SPAN =
+  (env.LOG_INITIAL_SPAN ?? 10n) > LOG_MAX_SPAN ? LOG_MAX_SPAN : (env.LOG_INITIAL_SPAN ?? 10n);
+export const LOG_SPAN_GROW_MAX_RESULTS = env.LOG_SPAN_GROW_MAX_RESULTS ?? 500;
+export const LOG_SPAN_GROW_MAX_MS = env.LOG_SPAN_GROW_MAX_MS ?? 2_000;
+export type RevenueSourceConfig =
+  | {
+      readonly id: string;
+      readonly type: "event";
+      readonly address: Address;
+      readonly event: string;
+      readonly amountField: string;
+      readonly recipientField: string | null;
+      readonly pool: TaxPool;
+      readonly startBlock: bigint | null;
+    }
+  | {
+      readonly id: string;
+      readonly type: "nativeBalance";
+      readonly address: Address;
+      readonly pool: TaxPool;
+      readonly startBlock: bigint | null;
+    };
+
+export const REVENUE_SOURCES: readonly RevenueSourceConfig[] = (env.REVENUE_SOURCES ?? []).map(
+  (source) =>
+    source.type === "event"
+      ? {
+          ...source,
+          address: source.address as Address,
+          recipientField: source.recipientField ?? null,
+          startBlock: source.startBlock ?? null
+        }
+      : {
+          ...source,
+          address: (source.address ?? env.TREASURY_ADDRESS) as Address,
+          startBlock: source.startBlock ?? null
+        }
+);
+export const LISTING_DURATION_SECONDS = env.LISTING_DURATION_SECONDS ?? 7 * 24 * 60 * 60;
+export const LISTING_RENEWAL_LEAD_SECONDS = env.LISTING_RENEWAL_LEAD_SECONDS ?? 60 * 60;
+export const LISTING_MAX_RENEWALS = env.LISTING_MAX_RENEWALS ?? 3;
+export const LISTING_RENEWAL_PRICE_BPS = env.LISTING_RENEWAL_PRICE_BPS ?? 10_000;
+export type ListingPricingMode = (typeof LISTING_PRICING_MODES)[number];
+export const LISTING_PRICING_MODE: ListingPricingMode = env.LISTING_PRICING_MODE ?? "fixed";
+export const LISTING_START_MARKUP_BPS = env.LISTING_START_MARKUP_BPS ?? 15_000;
+export const LISTING_END_MARKUP_BPS = env.LISTING_END_MARKUP_BPS ?? 11_000;
+export const LISTING_MIN_MARGIN_BPS = env.LISTING_MIN_MARGIN_BPS ?? 500;
+export const LISTING_VALIDATE_GAS_UNITS = env.LISTING_VALIDATE_GAS_UNITS ?? 150_000n;
+export const LISTING_MARKET_PRICING = parseFlag(env.LISTING_MARKET_PRICING, true);
+export const LISTING_FLOOR_MIN_MULTIPLE_BPS = env.LISTING_FLOOR_MIN_MULTIPLE_BPS ?? 9_000;
+export const LISTING_FLOOR_MAX_MULTIPLE_BPS = env.LISTING_FLOOR_MAX_MULTIPLE_BPS ?? 15_000;
+export const VALIDATE_LISTINGS_ONCHAIN = parseFlag(env.VALIDATE_LISTINGS_ONCHAIN, true);
+export const POST_LISTINGS_TO_OPENSEA = parseFlag(env.POST_LISTINGS_TO_OPENSEA, true);
+
+export interface CollectionSettings {
+  readonly validateOnchain: boolean;
+  readonly postToOpenSea: boolean;
+  /** Price of a renewed order relative to the order it replaces. */
+  readonly renewalPriceBps: number;
+  /** `dutch` listings decay linearly from `startMarkupBps` to `endMarkupBps` of cost. */
+  readonly pricingMode: ListingPricingMode;
+  readonly startMarkupBps: number;
+  readonly endMarkupBps: number;
+  /** Net margin over cost basis and acquisition gas that every listing price must clear. */
+  readonly minMarginBps: number;
+  /** Clamp markup prices between multiples of the OpenSea floor and recent sales. */
+  readonly marketPricing: boolean;
+  readonly minFloorMultipleBps: number;
+  readonly maxFloorMultipleBps: number;
+}
+
+const collectionSettingOverrides = new Map(
+  Object.entries(env.COLLECTION_SETTINGS ?? {}).map(([collection, settings]) => [
+    collection.toLowerCase(),
+    settings
+  ])
+);
+
+export function getCollectionSettings(collection: Address): CollectionSettings {
+  const overrides = collectionSettingOverrides.get(collection.toLowerCase());
+  return {
+    validateOnchain: overrides?.validateOnchain ?? VALIDATE_LISTINGS_ONCHAIN,
+    postToOpenSea: overrides?.postToOpenSea ?? POST_LISTINGS_TO_OPENSEA,
+    renewalPriceBps: overrides?.renewalPriceBps ?? LISTING_RENEWAL_PRICE_BPS,
+    pricingMode: overrides?.pricingMode ?? LISTING_PRICING_MODE,
+    startMarkupBps: overrides?.startMarkupBps ?? LISTING_START_MARKUP_BPS,
+    endMarkupBps: overrides?.endMarkupBps ?? LISTING_END_MARKUP_BPS,
+    minMarginBps: overrides?.minMarginBps ?? LISTING_MIN_MARGIN_BPS,
+    marketPricing: overrides?.marketPricing ?? LISTING_MARKET_PRICING,
+    minFloorMultipleBps: overrides?.minFloorMultipleBps ?? LISTING_FLOOR_MIN_MULTIPLE_BPS,
+    maxFloorMultipleBps: overrides?.maxFloorMultipleBps ?? LISTING_FLOOR_MAX_MULTIPLE_BPS
+  };
+}
+
+/** Purchase limits for one collection; null fields are not enforced. */
+export interface PurchaseRules {
+  readonly maxPriceWei: bigint | null;
+  /** Largest share of the purchase pool a single buy may spend. */
+  readonly maxPoolShareBps: number | null;
+  /** Tokens of the collection the treasury may hold, listed or not. */
+  readonly maxInventory: number | null;
+  /** When set, only these token ids may be bought. */
+  readonly allowTokenIds: readonly string[] | null;
+  readonly denyTokenIds: readonly string[];
+}
+
+const purchasePolicy = env.PURCHASE_POLICY ?? {};
+const purchaseRuleOverrides = new Map(
+  Object.entries(purchasePolicy.collections ?? {}).map(([collection, rules]) => [
+    collection.toLowerCase(),
+    rules
+  ])
+);
+const formatTokenIds = (tokenIds: readonly bigint[] | undefined): string[] | null =>
+  tokenIds ? tokenIds.map((tokenId) => tokenId.toString()) : null;
+
+export const PURCHASE_MIN_INTERVAL_MS = purchasePolicy.minIntervalMs ?? 0;
+
+/** Merges the global `PURCHASE_POLICY` rules with the overrides for `collection`. */
+export function getPurchaseRules(collection: Address | null): PurchaseRules {
+  const overrides = collection ? purchaseRuleOverrides.get(collection.toLowerCase()) : undefined;
+  return {
+    maxPriceWei: overrides?.maxPriceWei ?? purchasePolicy.maxPriceWei ?? null,
+    maxPoolShareBps: overrides?.maxPoolShareBps ?? purchasePolicy.maxPoolShareBps ?? null,
+    maxInventory: overrides?.maxInventory ?? purchasePolicy.maxInventory ?? null,
+    allowTokenIds:
+      formatTokenIds(overrides?.allowTokenIds) ?? formatTokenIds(purchasePolicy.allowTokenIds),
+    denyTokenIds:
+      formatTokenIds(overrides?.denyTokenIds) ?? formatTokenIds(purchasePolicy.denyTokenIds) ?? []
+  };
+}
@@ -1,15 +1,15 @@
-import {
-  LEGACY_STATE_FILE,
-  LOOP_INTERVAL_MS,
-  STATE_DB_FILE,
-  TREASURY_ADDRESS
-} from "./config.js";
+import { DRY_RUN, LOOP_INTERVAL_MS, TREASURY_ADDRESS } from "./config.js";
+import { openStateStore } from "./state/openStateStore.js";
 import { StateStore } from "./state/stateStore.js";
 import { publicClient } from "./treasuryClient.js";
 import { collectNewTaxProceeds } from "./services/taxCollector.js";
 import { reconcileListings } from "./services/listingMonitor.js";
+import { renewExpiringListings } from "./services/listingRenewal.js";
 import { performBuybackAndBurn } from "./services/buyback.js";
+import { payOutOperationsPool } from "./services/operationsPayout.js";
 import { attemptPurchaseAndListing } from "./services/purchase.js";
+import { collectRevenueSources } from "./services/revenueSources.js";
+import { syncTaxRoutes } from "./services/taxRouting.js";
 import { logger } from "./utils/logger.js";
 import { delay } from "./utils/time.js";
 
@@ -17,14 +17,29 @@ async function main(): Promise<void> {
   logger.info({ treasury: TREASURY_ADDRESS }, "Starting treasury bot");
 
   const latestBlock = await publicClient.getBlockNumber();
-  const stateStore = new StateStore(STATE_DB_FILE, LEGACY_STATE_FILE);
-  await stateStore.load(latestBlock);
+  const stateStore = await openStateStore(latestBlock);
 
   const initialState = stateStore.getState();
+  if (syncTaxRoutes(initialState)) {
+    await stateStore.save();
+    logger.info({ taxRoutes: initialState.taxRoutes }, "Updated persisted tax routes");
+  }
   logger.info(
     {
       commissionPoolWei: initialState.commissionPoolWei.toString(),
       salePoolWei: initialState.salePoolWei.toString(),
+      reservePoolWei: initialState.reservePoolWei.toString(),
+      operationsPoolWei: initialState.operationsPoolWei.toString(),
+      taxStreams: initialState.taxStreams.map((stream) => ({
+        taxId: stream.taxId,
+        pool: stream.pool,
+        creditedWei: stream.creditedWei.toString()
+      })),
+      revenueSources: initialState.revenueCursors.map((cursor) => ({
+        sourceId: cursor.sourceId,
+        lastBlock: cursor.lastBlock.toString(),
+        creditedWei: cursor.creditedWei.toString()
+      })),
       lastTaxBlock: initialState.lastTaxBlock.toString()
     },
     "Loaded bot state"
@@ -32,6 +47,7 @@ async function main(): Promise<void> {
 
   for (;;) {
     const loopStart = Date.now();
+    const poolsBefore = snapshotPools(stateStore);
     try {
       await collectNewTaxProceeds(stateStore);
       const proceedsCaptured = await reconcileListings(stateStore);
@@ -44,6 +60,9 @@ async function main(): Promise<void> {
           "Captured NFT sale proceeds"
         );
       }
+      await renewExpiringListings(stateStore);
+      await collectRevenueSources(stateStore);
+      await payOutOperationsPool(stateStore);
 
       let actionPerformed = await performBuybackAndBurn(stateStore);
       if (!actionPerformed) {
@@ -57,6 +76,10 @@ async function main(): Promise<void> {
       logger.error({ err: errPayload }, "Bot loop iteration failed");
     }
 
+    if (DRY_RUN) {
+      recordShadowPoolChange(stateStore, poolsBefore);
+    }
+
     const elapsed = Date.now() - loopStart;
     const sleepFor = Math.max(0, LOOP_INTERVAL_MS - elapsed);
     if (sleepFor > 0) {
@@ -65,6 +88,45 @@ async function main(): Promise<void> {
   }
 }
 
+interface PoolSnapshot {
+  readonly commissionPoolWei: bigint;
+  readonly salePoolWei: bigint;
+  readonly reservePoolWei: bigint;
+  readonly operationsPoolWei: bigint;
+  readonly pendingBurnAmount: bigint;
+}
+
+function snapshotPools(stateStore: StateStore): PoolSnapshot {
+  const state = stateStore.getState();
+  return {
+    commissionPoolWei: state.commissionPoolWei,
+    salePoolWei: state.salePoolWei,
+    reservePoolWei: state.reservePoolWei,
+    operationsPoolWei: state.operationsPoolWei,
+    pendingBurnAmount: state.pendingBurnAmount
+  };
+}
+
+function recordShadowPoolChange(stateStore: StateStore, before: PoolSnapshot): void {
+  const after = snapshotPools(stateStore);
+  const changed = (Object.keys(before) as (keyof PoolSnapshot)[]).some(
+    (key) => before[key] !== after[key]
+  );
+  if (!changed) {
+    return;
+  }
+
+  stateStore.recordShadowAction({
+    kind: "poolChange",
+    target: null,
+    valueWei: 0n,
+    calldata: null,
+    decoded: { before, after },
+    simulation: null,
+    txHash: null
+  });
+}
+
 main().catch((error: unknown) => {
   const errPayload =
     error instanceof Error
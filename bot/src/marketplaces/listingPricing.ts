@@ -0,0 +1,321 @@
+import type { OrderComponents } from "@opensea/seaport-js/lib/types.js";
+
+import { TREASURY_ADDRESS, getCollectionSettings, type CollectionSettings } from "../config.js";
+import type { Address, OpenSeaListingConsiderationBlueprint } from "../types.js";
+import type { CollectionFee, CollectionMarketData } from "./openseaMarketData.js";
+
+export interface ListingPriceSchedule {
+  readonly startPriceWei: bigint;
+  readonly endPriceWei: bigint;
+  /** Start price from the markup alone, before market clamping and the cost floor. */
+  readonly markupPriceWei: bigint;
+  readonly marketLowerBoundWei: bigint | null;
+  readonly marketUpperBoundWei: bigint | null;
+}
+
+export interface ListingPriceOptions {
+  readonly markupBps?: number;
+  /** Lowest acceptable price, e.g. from `resolveListingPriceFloor`. */
+  readonly minimumPriceWei?: bigint;
+  readonly market?: CollectionMarketData | null;
+}
+
+interface MarketBounds {
+  readonly lowerWei: bigint;
+  readonly upperWei: bigint;
+}
+
+export interface ScaledConsiderationItem {
+  readonly itemType: number;
+  readonly token: Address;
+  readonly identifierOrCriteria: bigint;
+  readonly amount: bigint;
+  readonly recipient: Address;
+}
+
+export interface ConsiderationLayout {
+  readonly consideration: readonly OpenSeaListingConsiderationBlueprint[];
+  readonly originalConsiderationTotal: bigint;
+}
+
+/** What a relisting has to recover, and the lowest price that recovers it. */
+export interface ListingPriceFloor {
+  readonly costBasisWei: bigint;
+  readonly gasWei: bigint;
+  readonly minMarginBps: number;
+  readonly targetProceedsWei: bigint;
+  readonly minimumPriceWei: bigint;
+}
+
+const DEFAULT_MARKUP_BPS = 12000; // 120% (20% markup)
+const BASIS_POINTS_DENOMINATOR = 10_000n;
+
+export function computeListingPrice(basePrice: bigint, markupBps?: number): bigint {
+  if (basePrice <= 0n) {
+    return 0n;
+  }
+  const bps = BigInt(markupBps ?? DEFAULT_MARKUP_BPS);
+  return (basePrice * bps + (BASIS_POINTS_DENOMINATOR - 1n)) / BASIS_POINTS_DENOMINATOR;
+}
+
+/**
+ * Resolves the start and end price of a relisting from its cost. Fixed listings use one
+ * markup for both; Dutch listings decay from the collection's start markup to its end markup,
+ * which Seaport interpolates on-chain between the order's start and end time.
+ * With market data, both prices are clamped into the collection's floor-multiple band. The
+ * cost floor (`minimumPriceWei`) is applied last and wins over the market band.
+ */
+export function resolveListingPrices(
+  basePriceWei: bigint,
+  collection: Address,
+  options: ListingPriceOptions = {}
+): ListingPriceSchedule {
+  const settings = getCollectionSettings(collection);
+  const dutch = settings.pricingMode === "dutch";
+  if (dutch && settings.endMarkupBps > settings.startMarkupBps) {
+    throw new Error(
+      `Dutch auction for ${collection} ends above its start markup (${settings.endMarkupBps} > ${settings.startMarkupBps} bps)`
+    );
+  }
+
+  const markupPriceWei = computeListingPrice(
+    basePriceWei,
+    dutch ? settings.startMarkupBps : options.markupBps
+  );
+  const markupEndPriceWei = dutch
+    ? computeListingPrice(basePriceWei, settings.endMarkupBps)
+    : markupPriceWei;
+
+  const bounds =
+    settings.marketPricing && options.market ? resolveMarketBounds(options.market, settings) : null;
+  const endPriceWei = atLeast(clampToBounds(markupEndPriceWei, bounds), options.minimumPriceWei ?? 0n);
+  const startPriceWei = atLeast(clampToBounds(markupPriceWei, bounds), endPriceWei);
+
+  return {
+    startPriceWei,
+    endPriceWei,
+    markupPriceWei,
+    marketLowerBoundWei: bounds?.lowerWei ?? null,
+    marketUpperBoundWei: bounds?.upperWei ?? null
+  };
+}
+
+/**
+ * The floor reference is the lower of the collection floor and the cheapest competing
+ * listing, falling back to the median recent sale. The upper band is measured from recent
+ * sales when they run above the floor, so a rising market can still be priced into.
+ */
+function resolveMarketBounds(
+  market: CollectionMarketData,
+  settings: CollectionSettings
+): MarketBounds | null {
+  const floorCandidates = [market.floorPriceWei, market.bestListingPriceWei].filter(
+    (price): price is bigint => price !== null && price > 0n
+  );
+  const floorReference =
+    floorCandidates.length > 0
+      ? floorCandidates.reduce((lowest, price) => (price < lowest ? price : lowest))
+      : market.recentSaleMedianWei;
+  if (floorReference === null || floorReference <= 0n) {
+    return null;
+  }
+
+  const upperReference =
+    market.recentSaleMedianWei !== null && market.recentSaleMedianWei > floorReference
+      ? market.recentSaleMedianWei
+      : floorReference;
+  return {
+    lowerWei: (floorReference * BigInt(settings.minFloorMultipleBps)) / BASIS_POINTS_DENOMINATOR,
+    upperWei: (upperReference * BigInt(settings.maxFloorMultipleBps)) / BASIS_POINTS_DENOMINATOR
+  };
+}
+
+/**
+ * Solves for the lowest listing price whose seller share, after the consideration is split
+ * across the blueprint's fee recipients, still returns cost basis plus acquisition gas plus
+ * the collection's minimum margin to the treasury.
+ */
+export function resolveListingPriceFloor(
+  items: readonly OpenSeaListingConsiderationBlueprint[],
+  originalTotal: bigint,
+  collection: Address,
+  costBasisWei: bigint,
+  gasWei: bigint
+): ListingPriceFloor {
+  const minMarginBps = getCollectionSettings(collection).minMarginBps;
+  const targetProceedsWei =
+    ((costBasisWei + gasWei) * (BASIS_POINTS_DENOMINATOR + BigInt(minMarginBps)) +
+      (BASIS_POINTS_DENOMINATOR - 1n)) /
+    BASIS_POINTS_DENOMINATOR;
+
+  const sellerOriginal = items
+    .filter((item) => item.isSellerProceeds)
+    .reduce((total, item) => total + item.originalAmount, 0n);
+  if (sellerOriginal <= 0n || originalTotal <= 0n) {
+    throw new Error("Listing blueprint has no seller proceeds item; cannot price for net proceeds");
+  }
+
+  // Proportional scaling rounds each share down, so step up from the exact-ratio estimate
+  // until the rounded seller share reaches the target.
+  let minimumPriceWei = (targetProceedsWei * originalTotal + (sellerOriginal - 1n)) / sellerOriginal;
+  for (let attempt = 0; attempt <= items.length; attempt += 1) {
+    if (sellerProceedsAt(items, originalTotal, minimumPriceWei) >= targetProceedsWei) {
+      return { costBasisWei, gasWei, minMarginBps, targetProceedsWei, minimumPriceWei };
+    }
+    minimumPriceWei += 1n;
+  }
+  throw new Error(`Could not find a listing price returning ${targetProceedsWei.toString()} wei`);
+}
+
+/**
+ * Rebuilds a relisting's consideration from the collection's current required fees: a seller
+ * line paying the treasury followed by one line per fee, all in the currency of the purchased
+ * order's seller line. Amounts are in basis points of the listing price.
+ */
+export function buildFeeConsideration(
+  items: readonly OpenSeaListingConsiderationBlueprint[],
+  fees: readonly CollectionFee[]
+): ConsiderationLayout {
+  const sellerItem = items.find((item) => item.isSellerProceeds);
+  if (!sellerItem) {
+    throw new Error("Listing blueprint has no seller proceeds item; cannot infer listing currency");
+  }
+
+  const feeBps = fees.reduce((total, fee) => total + fee.basisPoints, 0n);
+  if (feeBps >= BASIS_POINTS_DENOMINATOR) {
+    throw new Error(`Collection fees total ${feeBps.toString()} bps; nothing left for the seller`);
+  }
+
+  const line = (recipient: Address, originalAmount: bigint, isSellerProceeds: boolean) => ({
+    itemType: sellerItem.itemType,
+    token: sellerItem.token,
+    identifierOrCriteria: sellerItem.identifierOrCriteria,
+    originalAmount,
+    recipient,
+    isSellerProceeds
+  });
+  return {
+    consideration: [
+      line(TREASURY_ADDRESS, BASIS_POINTS_DENOMINATOR - feeBps, true),
+      ...fees.map((fee) => line(fee.recipient, fee.basisPoints, false))
+    ],
+    originalConsiderationTotal: BASIS_POINTS_DENOMINATOR
+  };
+}
+
+/** Share of the consideration not paid to the seller, in basis points. */
+export function considerationFeeBps(layout: ConsiderationLayout): number {
+  if (layout.originalConsiderationTotal <= 0n) {
+    return 0;
+  }
+  const feeTotal = layout.consideration
+    .filter((item) => !item.isSellerProceeds)
+    .reduce((total, item) => total + item.originalAmount, 0n);
+  return Number((feeTotal * BASIS_POINTS_DENOMINATOR) / layout.originalConsiderationTotal);
+}
+
+export function sellerProceedsAt(
+  items: readonly OpenSeaListingConsiderationBlueprint[],
+  originalTotal: bigint,
+  priceWei: bigint
+): bigint {
+  return scaleConsiderationAmounts(items, originalTotal, priceWei)
+    .filter((_, index) => items[index]?.isSellerProceeds)
+    .reduce((total, item) => total + item.amount, 0n);
+}
+
+export function scaleConsiderationAmounts(
+  items: readonly OpenSeaListingConsiderationBlueprint[],
+  originalTotal: bigint,
+  newTotal: bigint
+): Array<ScaledConsiderationItem> {
+  const scaled: Array<ScaledConsiderationItem> = [];
+  if (originalTotal === 0n || newTotal === 0n) {
+    return scaled;
+  }
+
+  let remainder = newTotal;
+
+  for (let index = 0; index < items.length; index += 1) {
+    const item = items[index];
+    if (!item) {
+      continue;
+    }
+    let amount = (newTotal * item.originalAmount) / originalTotal;
+    if (index === items.length - 1) {
+      amount = remainder > 0n ? remainder : 0n;
+    } else {
+      remainder -= amount;
+    }
+
+    const recipient = item.isSellerProceeds ? TREASURY_ADDRESS : item.recipient;
+
+    scaled.push({
+      itemType: item.itemType,
+      token: item.token,
+      identifierOrCriteria: item.identifierOrCriteria,
+      amount,
+      recipient
+    });
+  }
+
+  return scaled;
+}
+
+/**
+ * Mirrors Seaport's `_locateCurrentAmount` for consideration items: linear interpolation
+ * between the start and end amount over the order's lifetime, rounded up.
+ */
+export function currentConsiderationAmount(
+  startAmount: bigint,
+  endAmount: bigint,
+  startTime: bigint,
+  endTime: bigint,
+  timestamp: bigint
+): bigint {
+  if (startAmount === endAmount || endTime <= startTime) {
+    return endAmount;
+  }
+  const clamped = timestamp < startTime ? startTime : timestamp > endTime ? endTime : timestamp;
+  const duration = endTime - startTime;
+  const elapsed = clamped - startTime;
+  const remaining = duration - elapsed;
+  return (startAmount * remaining + endAmount * elapsed + (duration - 1n)) / duration;
+}
+
+/** Sums what `recipient` is owed by the order if it is filled at `timestamp`. */
+export function proceedsAtTime(
+  order: OrderComponents,
+  recipient: Address,
+  timestamp: bigint
+): bigint {
+  const recipientLower = recipient.toLowerCase();
+  const startTime = BigInt(order.startTime);
+  const endTime = BigInt(order.endTime);
+  return order.consideration
+    .filter((item) => item.recipient.toLowerCase() === recipientLower)
+    .reduce(
+      (total, item) =>
+        total +
+        currentConsiderationAmount(
+          BigInt(item.startAmount),
+          BigInt(item.endAmount),
+          startTime,
+          endTime,
+          timestamp
+        ),
+      0n
+    );
+}
+
+function clampToBounds(value: bigint, bounds: MarketBounds | null): bigint {
+  if (!bounds) {
+    return value;
+  }
+  const raised = atLeast(value, bounds.lowerWei);
+  return raised > bounds.upperWei ? bounds.upperWei : raised;
+}
+
+function atLeast(value: bigint, floor: bigint): bigint {
+  return value > floor ? value : floor;
+}
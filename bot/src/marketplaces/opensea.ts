@@ -12,9 +12,10 @@ import type {
   ExecutionPayload,
   Hex,
   OpenSeaListingBlueprint,
-  OpenSeaListingConsiderationBlueprint
+  OpenSeaListingConsiderationBlueprint,
+  OrderValidationIssue
 } from "../types.js";
-import { getOpenSeaSdk, getSeaport } from "./openseaClients.js";
+import { getOpenSeaSdk, getOrderValidator, getSeaport } from "./openseaClients.js";
 
 export const OPENSEA_CHAIN_SLUG: Record<number, string> = {
   1: "ethereum",
@@ -42,6 +43,66 @@ export interface OpenSeaTargetItem {
   readonly tokenId?: string | null;
 }
 
+/** Listings the resolver must never pick, so the bot does not buy back its own inventory. */
+export interface OpenSeaListingExclusions {
+  /** Offerers whose listings are skipped, e.g. the treasury and the operator. */
+  readonly offerers: readonly Address[];
+  readonly orderHashes: readonly string[];
+  /** Tokens skipped regardless of who lists them, e.g. ones the treasury sold recently. */
+  readonly tokens: readonly { collection: Address; tokenId: string }[];
+}
+
+/** A listing as seen by a purchase policy screen. */
+export interface OpenSeaBuyCandidate {
+  readonly orderHash: string;
+  readonly collection: Address | null;
+  readonly tokenId: string | null;
+  readonly priceWei: bigint;
+}
+
+export interface OpenSeaBuyOptions {
+  readonly exclusions?: OpenSeaListingExclusions;
+  /** Returns why a candidate may not be bought, or null to accept it. */
+  readonly screen?: (candidate: OpenSeaBuyCandidate) => string | null;
+  /** How many of the cheapest listings to consider before giving up. */
+  readonly maxCandidates?: number;
+}
+
+export interface SkippedListing {
+  readonly orderHash: string;
+  readonly priceWei: bigint;
+  readonly reason: string;
+  /** Set when the order itself failed validation, as opposed to being filtered out. */
+  readonly issues: readonly OrderValidationIssue[];
+}
+
+/** The cheapest listing that passed every check, and why each cheaper one was passed over. */
+export interface OpenSeaBuySelection {
+  readonly execution: ExecutionPayload | null;
+  readonly skipped: readonly SkippedListing[];
+}
+
+const LISTING_CANDIDATES_PAGE_SIZE = 50;
+/** SeaportValidator error codes are grouped by hundreds. */
+const VALIDATOR_ISSUE_CATEGORIES: Record<number, string> = {
+  1: "generic",
+  2: "erc20",
+  3: "erc721",
+  4: "erc1155",
+  5: "consideration",
+  6: "offer",
+  7: "primary_fee",
+  8: "creator_fee",
+  9: "signature",
+  10: "time",
+  11: "status",
+  12: "conduit"
+};
+// Seaport validator time issues that no later block can fix: EndTimeBeforeStartTime, Expired.
+const TERMINAL_VALIDATOR_CODES = new Set(["1000", "1001"]);
+const DEFAULT_MAX_CANDIDATES = 20;
+const NO_EXCLUSIONS: OpenSeaListingExclusions = { offerers: [], orderHashes: [], tokens: [] };
+
 const DEBUG_LOG_PATH = resolve(
   process.cwd(),
   process.env.OPENSEA_DEBUG_LOG ?? "opensea-debug.log"
@@ -49,6 +110,18 @@ const DEBUG_LOG_PATH = resolve(
 
 let debugLogInitialized = false;
 
+/**
+ * True for issues that mean the order can never be filled: it was cancelled, filled, voided by a
+ * counter increment, or has expired. Anything else (not started yet, a missing approval or
+ * balance) may clear up and is re-checked on the next tick.
+ */
+export function isTerminalOrderIssue(issue: OrderValidationIssue): boolean {
+  return (
+    issue.source === "status" ||
+    (issue.source === "validator" && TERMINAL_VALIDATOR_CODES.has(issue.code))
+  );
+}
+
 export async function debugLog(entry: unknown): Promise<void> {
   try {
     if (!debugLogInitialized) {
@@ -63,10 +136,10 @@ export async function debugLog(entry: unknown): Promise<void> {
 
 export async function fetchOpenSeaBuyExecution(
   config: OpenSeaFetcherConfig,
-  target: OpenSeaTargetItem
-): Promise<ExecutionPayload> {
+  target: OpenSeaTargetItem,
+  options: OpenSeaBuyOptions = {}
+): Promise<OpenSeaBuySelection> {
   const sdk = getOpenSeaSdk();
-  let seaport = getSeaport();
 
   await debugLog({
     ts: new Date().toISOString(),
@@ -75,13 +148,78 @@ export async function fetchOpenSeaBuyExecution(
     target
   });
 
-  const resolvedOrder = await resolveOrder(sdk.api, seaport, target);
-  const orderWithSignature = await ensureOrderHasSignature(
+  const skipped: SkippedListing[] = [];
+  const skip = async (
+    orderHash: string,
+    priceWei: bigint,
+    reason: string,
+    issues: readonly OrderValidationIssue[] = []
+  ): Promise<void> => {
+    skipped.push({ orderHash, priceWei, reason, issues });
+    await debugLog({
+      ts: new Date().toISOString(),
+      event: "opensea_listing_skipped",
+      orderHash,
+      priceWei: priceWei.toString(),
+      reason,
+      issues
+    });
+  };
+
+  const candidates = await resolveCandidates(
     sdk.api,
-    resolvedOrder,
-    config.taker
+    target,
+    options.maxCandidates ?? DEFAULT_MAX_CANDIDATES,
+    skip
   );
-  seaport = getSeaport(resolvedOrder.protocolAddress);
+  const exclusions = options.exclusions ?? NO_EXCLUSIONS;
+
+  for (const candidate of candidates) {
+    const reason =
+      exclusionReason(candidate, exclusions) ??
+      options.screen?.(describeCandidate(candidate)) ??
+      null;
+    if (reason) {
+      await skip(candidate.orderHash, candidate.price, reason);
+      continue;
+    }
+
+    try {
+      const order = await ensureOrderHasSignature(sdk.api, candidate, config.taker);
+      const issues = await validateOrder(
+        getSeaport(candidate.protocolAddress),
+        order,
+        candidate.orderHash
+      );
+      if (issues.length > 0) {
+        await skip(
+          candidate.orderHash,
+          candidate.price,
+          issues.map((issue) => issue.message).join("; "),
+          issues
+        );
+        continue;
+      }
+      const execution = await buildBuyExecution(config, candidate, order);
+      return { execution, skipped };
+    } catch (error) {
+      await skip(
+        candidate.orderHash,
+        candidate.price,
+        error instanceof Error ? error.message : String(error)
+      );
+    }
+  }
+
+  return { execution: null, skipped };
+}
+
+async function buildBuyExecution(
+  config: OpenSeaFetcherConfig,
+  resolvedOrder: ResolvedOrder,
+  orderWithSignature: OrderWithCounter
+): Promise<ExecutionPayload> {
+  const seaport = getSeaport(resolvedOrder.protocolAddress);
 
   await debugLog({
     ts: new Date().toISOString(),
@@ -140,6 +278,7 @@ export async function fetchOpenSeaBuyExecution(
     valueWei,
     priceWei,
     source: "opensea",
+    orderHash: resolvedOrder.orderHash,
     openSeaMetadata: metadata ?? undefined
   };
 }
@@ -152,38 +291,176 @@ interface ResolvedOrder {
   readonly collectionSlug: string | null;
 }
 
-async function resolveOrder(
+/**
+ * Pages through up to `maxCandidates` listings for the target and returns them cheapest
+ * first. Listings that cannot be mapped to a Seaport order are reported through `skip`.
+ */
+async function resolveCandidates(
   api: ReturnType<typeof getOpenSeaSdk>["api"],
-  seaport: ReturnType<typeof getSeaport>,
-  target: OpenSeaTargetItem
-): Promise<ResolvedOrder> {
-  if (target.collection && target.tokenId) {
-    const query: OrdersQueryOptions = {
-      side: OrderSide.LISTING,
-      orderBy: "eth_price",
-      orderDirection: "asc",
-      assetContractAddress: target.collection,
-      tokenIds: [target.tokenId]
-    };
+  target: OpenSeaTargetItem,
+  maxCandidates: number,
+  skip: (orderHash: string, priceWei: bigint, reason: string) => Promise<void>
+): Promise<ResolvedOrder[]> {
+  const candidates: ResolvedOrder[] = [];
+  const collect = async (orderHash: string | null, map: () => ResolvedOrder): Promise<void> => {
+    try {
+      candidates.push(map());
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      await skip(orderHash ?? "unknown", 0n, reason);
+    }
+  };
 
-    const order = await api.getOrder(query);
-    return mapOrderV2(order, seaport, target.collectionSlug ?? null);
+  if (target.collection && target.tokenId) {
+    const seaport = getSeaport();
+    let next: string | undefined;
+    let seen = 0;
+    do {
+      const query: OrdersQueryOptions = {
+        side: OrderSide.LISTING,
+        orderBy: "eth_price",
+        orderDirection: "asc",
+        assetContractAddress: target.collection,
+        tokenIds: [target.tokenId],
+        next
+      };
+      const page = await api.getOrders(query);
+      for (const order of page.orders.slice(0, maxCandidates - seen)) {
+        await collect(order.orderHash, () =>
+          mapOrderV2(order, seaport, target.collectionSlug ?? null)
+        );
+      }
+      seen += page.orders.length;
+      next = page.next ?? undefined;
+    } while (next && seen < maxCandidates);
+  } else if (target.collectionSlug) {
+    const collectionSlug = target.collectionSlug;
+    let next: string | undefined;
+    let seen = 0;
+    do {
+      const page = await api.getBestListings(
+        collectionSlug,
+        Math.min(maxCandidates - seen, LISTING_CANDIDATES_PAGE_SIZE),
+        next
+      );
+      const listings = page.listings ?? [];
+      for (const listing of listings) {
+        await collect(listing.order_hash, () => mapListing(listing, collectionSlug));
+      }
+      seen += listings.length;
+      next = listings.length > 0 ? page.next ?? undefined : undefined;
+    } while (next && seen < maxCandidates);
+  } else {
+    throw new Error(
+      "Either TARGET_TOKEN_ID + TARGET_COLLECTION or TARGET_COLLECTION_SLUG must be provided"
+    );
   }
 
-  if (target.collectionSlug) {
-    const bestListings = await api.getBestListings(target.collectionSlug, 1);
-    const listing = bestListings.listings?.[0];
+  return candidates.sort((left, right) =>
+    left.price < right.price ? -1 : left.price > right.price ? 1 : 0
+  );
+}
 
-    if (!listing) {
-      throw new Error(`No active OpenSea listings for collection slug ${target.collectionSlug}`);
+/**
+ * Checks that the listing can still be filled: its time window, the offerer's balance and
+ * approval through the order validator, and the cancelled/filled status and counter on the
+ * listing's own Seaport. The validator contract targets an older Seaport, so its signature
+ * and status checks are not used. A validator that cannot be reached is not treated as a
+ * failure; the buy is still simulated before it is sent.
+ */
+async function validateOrder(
+  seaport: ReturnType<typeof getSeaport>,
+  order: OrderWithCounter,
+  orderHash: string
+): Promise<OrderValidationIssue[]> {
+  const issues: OrderValidationIssue[] = [];
+  const parameters = {
+    ...order.parameters,
+    totalOriginalConsiderationItems: order.parameters.consideration.length
+  };
+  try {
+    const validator = getOrderValidator();
+    const results = await Promise.all([
+      validator.validateTime(parameters),
+      validator.validateOfferItems(parameters)
+    ]);
+    const codes = await Promise.all(results.flatMap((result) => result.errors));
+    for (const code of codes.map((value) => Number(value))) {
+      const category = VALIDATOR_ISSUE_CATEGORIES[Math.floor(code / 100)] ?? "unknown";
+      issues.push({
+        source: "validator",
+        code: code.toString(),
+        message: `${category} issue ${code}`
+      });
     }
+  } catch (error) {
+    await debugLog({
+      ts: new Date().toISOString(),
+      event: "opensea_validator_unavailable",
+      orderHash,
+      error: error instanceof Error ? error.message : String(error)
+    });
+  }
 
-    return mapListing(listing, target.collectionSlug);
+  const [status, counter] = await Promise.all([
+    seaport.getOrderStatus(orderHash),
+    seaport.getCounter(order.parameters.offerer)
+  ]);
+  if (status.isCancelled) {
+    issues.push({ source: "status", code: "cancelled", message: "Order has been cancelled" });
+  }
+  if (status.totalSize > 0n && status.totalFilled >= status.totalSize) {
+    issues.push({ source: "status", code: "filled", message: "Order has been fully filled" });
   }
+  const orderCounter = toBigInt(order.parameters.counter);
+  if (counter !== orderCounter) {
+    issues.push({
+      source: "status",
+      code: "counter",
+      message: `Offerer counter moved from ${orderCounter.toString()} to ${counter.toString()}`
+    });
+  }
+  return issues;
+}
 
-  throw new Error(
-    "Either TARGET_TOKEN_ID + TARGET_COLLECTION or TARGET_COLLECTION_SLUG must be provided"
-  );
+function describeCandidate(order: ResolvedOrder): OpenSeaBuyCandidate {
+  const offerItem = order.protocolData.parameters.offer?.[0];
+  return {
+    orderHash: order.orderHash,
+    collection: offerItem ? normalizeAddress(offerItem.token) : null,
+    tokenId: offerItem ? toBigInt(offerItem.identifierOrCriteria).toString() : null,
+    priceWei: order.price
+  };
+}
+
+function exclusionReason(
+  order: ResolvedOrder,
+  exclusions: OpenSeaListingExclusions
+): string | null {
+  const offerer = order.protocolData.parameters.offerer.toLowerCase();
+  if (exclusions.offerers.some((candidate) => candidate.toLowerCase() === offerer)) {
+    return "own_offerer";
+  }
+
+  const orderHash = order.orderHash.toLowerCase();
+  if (exclusions.orderHashes.some((candidate) => candidate.toLowerCase() === orderHash)) {
+    return "active_listing";
+  }
+
+  const offerItem = order.protocolData.parameters.offer?.[0];
+  if (offerItem) {
+    const token = offerItem.token.toLowerCase();
+    const tokenId = toBigInt(offerItem.identifierOrCriteria).toString();
+    if (
+      exclusions.tokens.some(
+        (candidate) => candidate.collection.toLowerCase() === token && candidate.tokenId === tokenId
+      )
+    ) {
+      return "recently_sold";
+    }
+  }
+
+  return null;
 }
 
 function mapOrderV2(
@@ -200,7 +477,7 @@ function mapOrderV2(
   return {
     orderHash,
     protocolData: protocolDataCandidate,
-    protocolAddress: normalizeAddress(order.protocolAddress, DEFAULT_SEAPORT_ADDRESS),
+    protocolAddress: resolveProtocolAddress(order.protocolAddress),
     price: order.currentPrice,
     collectionSlug
   };
@@ -227,12 +504,23 @@ function mapListing(listing: Listing, collectionSlug: string | null): ResolvedOr
   return {
     orderHash: listing.order_hash,
     protocolData: protocolDataCandidate,
-    protocolAddress: normalizeAddress(listing.protocol_address, DEFAULT_SEAPORT_ADDRESS),
+    protocolAddress: resolveProtocolAddress(listing.protocol_address),
     price,
     collectionSlug
   };
 }
 
+/** Listings without a protocol address use the default Seaport; malformed ones are rejected. */
+function resolveProtocolAddress(value: unknown): Address {
+  if (value === null || value === undefined || value === "") {
+    return DEFAULT_SEAPORT_ADDRESS;
+  }
+  if (typeof value !== "string" || !isAddress(value)) {
+    throw new Error(`Listing has an invalid protocol address ${String(value)}`);
+  }
+  return getAddress(value);
+}
+
 function buildOpenSeaListingBlueprint(
   order: OrderWithCounter,
   protocolAddress: Address,
@@ -5,8 +5,10 @@ import type { OrderComponents } from "@opensea/seaport-js/lib/types.js";
 import type {
   Address,
   OpenSeaListingBlueprint,
-  OpenSeaListingConsiderationBlueprint,
-  Hex
+  Hex,
+  ListingFeeSource,
+  ListingPricingInputs,
+  SignedListingOrder
 } from "../types.js";
 import {
   executeSeaport,
@@ -16,25 +18,63 @@ import {
   treasuryAbi,
   waitForReceipt
 } from "../treasuryClient.js";
-import { TREASURY_ADDRESS } from "../config.js";
+import {
+  DRY_RUN,
+  LISTING_DURATION_SECONDS,
+  LISTING_VALIDATE_GAS_UNITS,
+  TREASURY_ADDRESS,
+  getCollectionSettings
+} from "../config.js";
+import { recordShadowAction, SHADOW_SIGNATURE } from "../shadow.js";
 import { debugLog, type OpenSeaFetcherConfig } from "./opensea.js";
+import {
+  buildFeeConsideration,
+  considerationFeeBps,
+  resolveListingPriceFloor,
+  resolveListingPrices,
+  scaleConsiderationAmounts,
+  type ConsiderationLayout
+} from "./listingPricing.js";
 import { getSeaport } from "./openseaClients.js";
+import {
+  fetchCollectionMarketData,
+  fetchRequiredCollectionFees,
+  resolveCollectionSlug,
+  type CollectionMarketData
+} from "./openseaMarketData.js";
+import { postListingToOpenSea } from "./openseaOrderbook.js";
+import { logger } from "../utils/logger.js";
+import { serializeForLog } from "../utils/serialize.js";
 
 interface ListingOptions {
   readonly executionPriceWei: bigint;
   readonly markupBps: number;
   readonly listingDuration: number;
+  /** Gas already spent acquiring the NFT, such as the purchase transaction. */
+  readonly acquisitionGasWei: bigint;
+}
+
+interface RenewalOptions {
+  readonly priceBps: number;
+  readonly listingDuration: number;
+  /** Treasury proceeds the renewed order may not drop below, even once fully decayed. */
+  readonly minimumProceedsWei: bigint | null;
 }
 
-interface ListingResult {
+export interface ListingResult {
   readonly orderHash: string;
   readonly sellerProceedsWei: bigint;
   readonly listingPriceWei: bigint;
+  /** Equal to `listingPriceWei` unless the listing is a Dutch auction. */
+  readonly endPriceWei: bigint;
+  readonly postedToOpenSea: boolean;
+  readonly validatedOnchain: boolean;
+  readonly order: SignedListingOrder;
+  /** Cost floor and market data behind the price; null for renewals. */
+  readonly pricingInputs: ListingPricingInputs | null;
 }
 
-const DEFAULT_MARKUP_BPS = 12000; // 120% (20% markup)
 const BASIS_POINTS_DENOMINATOR = 10_000n;
-const DEFAULT_LISTING_DURATION = 7 * 24 * 60 * 60; // 7 days
 const ZERO_ADDRESS: Address = "0x0000000000000000000000000000000000000000";
 const ZERO_BYTES32: Hex = `0x${"00".repeat(32)}`;
 const SEAPORT_CONDUIT_CONTROLLER: Address = "0x00000000F9490004C11Cef243f5400493c00Ad63";
@@ -98,30 +138,27 @@ const ERC721_APPROVAL_ABI = [
 ] as const;
 
 export async function createOpenSeaListing(
-  _config: OpenSeaFetcherConfig,
+  config: OpenSeaFetcherConfig,
   blueprint: OpenSeaListingBlueprint,
   options: Partial<ListingOptions> = {}
 ): Promise<ListingResult | null> {
-  const listingPriceWei = computeListingPrice(options.executionPriceWei ?? 0n, options.markupBps);
-  if (listingPriceWei <= 0n) {
+  const costBasisWei = options.executionPriceWei ?? 0n;
+  if (costBasisWei <= 0n) {
     return null;
   }
 
-  const seaport = getSeaport(blueprint.protocolAddress);
-
   const counter = await getSeaportCounter(blueprint.protocolAddress, TREASURY_ADDRESS);
   const offerItemType = blueprint.offerItemType as SeaportItemType;
   const isErc1155 = offerItemType === SEAPORT_ITEM_TYPE.ERC1155;
   const offerStartAmount = isErc1155 ? 1n : blueprint.offerStartAmount > 0n ? blueprint.offerStartAmount : 1n;
   const offerEndAmount = isErc1155 ? 1n : blueprint.offerEndAmount > 0n ? blueprint.offerEndAmount : 1n;
 
-  const consideration = scaleConsiderationAmounts(
-    blueprint.consideration,
-    blueprint.originalConsiderationTotal,
-    listingPriceWei
-  );
+  // In shadow mode the purchase was only simulated, so the treasury never receives the NFT.
+  const expectsOwnership =
+    !DRY_RUN &&
+    (offerItemType === SEAPORT_ITEM_TYPE.ERC721 || offerItemType === SEAPORT_ITEM_TYPE.ERC1155);
 
-  if (offerItemType === SEAPORT_ITEM_TYPE.ERC721 || offerItemType === SEAPORT_ITEM_TYPE.ERC1155) {
+  if (expectsOwnership) {
     await waitForNftOwnership(
       blueprint.offerToken,
       blueprint.offerIdentifier,
@@ -131,9 +168,13 @@ export async function createOpenSeaListing(
     );
   }
 
-  await ensureConduitApproval(blueprint.offerToken, blueprint.conduitKey, blueprint.protocolAddress);
+  const approvalGasWei = await ensureConduitApproval(
+    blueprint.offerToken,
+    blueprint.conduitKey,
+    blueprint.protocolAddress
+  );
 
-  if (OWNERSHIP_PROPAGATION_DELAY_MS > 0) {
+  if (expectsOwnership && OWNERSHIP_PROPAGATION_DELAY_MS > 0) {
     await debugLog({
       ts: new Date().toISOString(),
       event: "listing_wait_before_prepare",
@@ -142,9 +183,56 @@ export async function createOpenSeaListing(
     await delay(OWNERSHIP_PROPAGATION_DELAY_MS);
   }
 
+  const validationGasWei = getCollectionSettings(blueprint.offerToken).validateOnchain
+    ? LISTING_VALIDATE_GAS_UNITS * (await publicClient.getGasPrice())
+    : 0n;
+  const collectionSlug = await loadCollectionSlug(blueprint);
+  const { layout, feeSource } = await loadConsiderationLayout(blueprint, collectionSlug);
+  const priceFloor = resolveListingPriceFloor(
+    layout.consideration,
+    layout.originalConsiderationTotal,
+    blueprint.offerToken,
+    costBasisWei,
+    (options.acquisitionGasWei ?? 0n) + approvalGasWei + validationGasWei
+  );
+  const market = await loadMarketData(blueprint, collectionSlug);
+  const prices = resolveListingPrices(costBasisWei, blueprint.offerToken, {
+    markupBps: options.markupBps,
+    minimumPriceWei: priceFloor.minimumPriceWei,
+    market
+  });
+  const { startPriceWei: listingPriceWei, endPriceWei } = prices;
+  const pricingInputs: ListingPricingInputs = {
+    ...priceFloor,
+    markupPriceWei: prices.markupPriceWei,
+    collectionSlug,
+    floorPriceWei: market?.floorPriceWei ?? null,
+    bestListingPriceWei: market?.bestListingPriceWei ?? null,
+    recentSaleMedianWei: market?.recentSaleMedianWei ?? null,
+    recentSaleCount: market?.recentSaleCount ?? 0,
+    marketDataAtMs: market?.fetchedAtMs ?? null,
+    marketLowerBoundWei: prices.marketLowerBoundWei,
+    marketUpperBoundWei: prices.marketUpperBoundWei,
+    feeSource,
+    feeBps: considerationFeeBps(layout),
+    startPriceWei: listingPriceWei,
+    endPriceWei
+  };
+
+  const consideration = scaleConsiderationAmounts(
+    layout.consideration,
+    layout.originalConsiderationTotal,
+    listingPriceWei
+  );
+  const endConsideration = scaleConsiderationAmounts(
+    layout.consideration,
+    layout.originalConsiderationTotal,
+    endPriceWei
+  );
+
   const now = BigInt(Math.floor(Date.now() / 1000));
   const startTime = now;
-  const endTime = now + BigInt(options.listingDuration ?? DEFAULT_LISTING_DURATION);
+  const endTime = now + BigInt(options.listingDuration ?? LISTING_DURATION_SECONDS);
   const saltHex = bytesToHex(randomBytes(32));
   const salt = hexToBigInt(saltHex);
 
@@ -160,12 +248,12 @@ export async function createOpenSeaListing(
         endAmount: offerEndAmount.toString()
       }
     ],
-    consideration: consideration.map((item) => ({
+    consideration: consideration.map((item, index) => ({
       itemType: item.itemType,
       token: item.token,
       identifierOrCriteria: item.identifierOrCriteria.toString(),
       startAmount: item.amount.toString(),
-      endAmount: item.amount.toString(),
+      endAmount: (endConsideration[index]?.amount ?? item.amount).toString(),
       recipient: item.recipient
     })),
     orderType: blueprint.orderType,
@@ -178,8 +266,229 @@ export async function createOpenSeaListing(
     counter: counter.toString()
   };
 
+  const published = await publishListingOrder(
+    config,
+    blueprint.protocolAddress,
+    blueprint.offerToken,
+    orderComponents,
+    listingPriceWei,
+    endPriceWei
+  );
+
+  const sellerIndex = layout.consideration.findIndex((item) => item.isSellerProceeds);
+  const sellerProceeds =
+    sellerIndex >= 0 && sellerIndex < consideration.length
+      ? consideration[sellerIndex]?.amount ?? 0n
+      : 0n;
+
+  return {
+    ...published,
+    sellerProceedsWei: sellerProceeds,
+    listingPriceWei,
+    endPriceWei,
+    pricingInputs
+  };
+}
+
+async function loadCollectionSlug(blueprint: OpenSeaListingBlueprint): Promise<string | null> {
+  if (blueprint.collectionSlug) {
+    return blueprint.collectionSlug;
+  }
+  try {
+    return await resolveCollectionSlug(blueprint.offerToken, blueprint.offerIdentifier);
+  } catch (error) {
+    logger.warn(
+      {
+        collection: blueprint.offerToken,
+        tokenId: blueprint.offerIdentifier.toString(),
+        err: error instanceof Error ? error.message : String(error)
+      },
+      "Failed to resolve OpenSea collection slug"
+    );
+    return null;
+  }
+}
+
+/**
+ * Builds the relisting's fee lines from the collection's current required fees. If they cannot
+ * be loaded, the purchased order's fee lines are reused; its seller line still pays the treasury.
+ */
+async function loadConsiderationLayout(
+  blueprint: OpenSeaListingBlueprint,
+  collectionSlug: string | null
+): Promise<{ layout: ConsiderationLayout; feeSource: ListingFeeSource }> {
+  const purchasedLayout: ConsiderationLayout = {
+    consideration: blueprint.consideration,
+    originalConsiderationTotal: blueprint.originalConsiderationTotal
+  };
+  if (!collectionSlug) {
+    logger.warn(
+      { collection: blueprint.offerToken },
+      "No OpenSea collection slug; reusing the purchased order's fees"
+    );
+    return { layout: purchasedLayout, feeSource: "purchased_order" };
+  }
+  try {
+    const fees = await fetchRequiredCollectionFees(collectionSlug);
+    return {
+      layout: buildFeeConsideration(blueprint.consideration, fees),
+      feeSource: "collection"
+    };
+  } catch (error) {
+    logger.warn(
+      {
+        collection: blueprint.offerToken,
+        collectionSlug,
+        err: error instanceof Error ? error.message : String(error)
+      },
+      "Failed to load OpenSea collection fees; reusing the purchased order's fees"
+    );
+    return { layout: purchasedLayout, feeSource: "purchased_order" };
+  }
+}
+
+/**
+ * Market data only tightens the price, so a failed lookup is logged and the listing falls
+ * back to cost-based pricing.
+ */
+async function loadMarketData(
+  blueprint: OpenSeaListingBlueprint,
+  collectionSlug: string | null
+): Promise<CollectionMarketData | null> {
+  if (!getCollectionSettings(blueprint.offerToken).marketPricing || !collectionSlug) {
+    return null;
+  }
+  try {
+    return await fetchCollectionMarketData(collectionSlug);
+  } catch (error) {
+    logger.warn(
+      {
+        collection: blueprint.offerToken,
+        err: error instanceof Error ? error.message : String(error)
+      },
+      "Failed to load OpenSea market data; pricing from cost only"
+    );
+    return null;
+  }
+}
+
+/**
+ * Re-signs a stored order with a fresh salt, counter and validity window, keeping its offer,
+ * zone and fee recipients. Consideration amounts are scaled by `priceBps` of the previous
+ * order. The previous order is not cancelled here; the caller cancels it once the new order
+ * is tracked.
+ */
+export async function renewOpenSeaListing(
+  config: OpenSeaFetcherConfig,
+  previous: SignedListingOrder,
+  options: Partial<RenewalOptions> = {}
+): Promise<ListingResult> {
+  const previousItems = previous.components.consideration;
+  const priceBps = renewalPriceBps(previous, options);
+  const startAmounts = scaleAmounts(
+    previousItems.map((item) => BigInt(item.startAmount)),
+    priceBps
+  );
+  const endAmounts = scaleAmounts(
+    previousItems.map((item) => BigInt(item.endAmount)),
+    priceBps
+  );
+  const listingPriceWei = startAmounts.reduce((total, amount) => total + amount, 0n);
+  const endPriceWei = endAmounts.reduce((total, amount) => total + amount, 0n);
+  if (listingPriceWei <= 0n || endPriceWei <= 0n) {
+    throw new Error(`Cannot renew ${previous.orderHash} at a zero price`);
+  }
+
+  const offerToken = previous.components.offer[0]?.token as Address | undefined;
+  if (!offerToken) {
+    throw new Error(`Stored order ${previous.orderHash} has no offer item`);
+  }
+
+  const counter = await getSeaportCounter(previous.protocolAddress, TREASURY_ADDRESS);
+  const now = BigInt(Math.floor(Date.now() / 1000));
+  const salt = hexToBigInt(bytesToHex(randomBytes(32)));
+
+  const consideration = previousItems.map((item, index) => ({
+    ...item,
+    startAmount: (startAmounts[index] ?? 0n).toString(),
+    endAmount: (endAmounts[index] ?? 0n).toString()
+  }));
+
+  const orderComponents: OrderComponents = {
+    ...previous.components,
+    consideration,
+    startTime: now.toString(),
+    endTime: (now + BigInt(options.listingDuration ?? LISTING_DURATION_SECONDS)).toString(),
+    salt: salt.toString(),
+    totalOriginalConsiderationItems: consideration.length.toString(),
+    counter: counter.toString()
+  };
+
+  const published = await publishListingOrder(
+    config,
+    previous.protocolAddress,
+    offerToken,
+    orderComponents,
+    listingPriceWei,
+    endPriceWei
+  );
+
+  const treasuryLower = TREASURY_ADDRESS.toLowerCase();
+  const sellerProceeds = consideration
+    .filter((item) => item.recipient.toLowerCase() === treasuryLower)
+    .reduce((total, item) => total + BigInt(item.startAmount), 0n);
+
+  return {
+    ...published,
+    sellerProceedsWei: sellerProceeds,
+    listingPriceWei,
+    endPriceWei,
+    pricingInputs: null
+  };
+}
+
+/**
+ * Raises the configured renewal price where needed so the fully decayed treasury share of the
+ * renewed order still covers `minimumProceedsWei`.
+ */
+function renewalPriceBps(previous: SignedListingOrder, options: Partial<RenewalOptions>): bigint {
+  const configuredBps = BigInt(options.priceBps ?? Number(BASIS_POINTS_DENOMINATOR));
+  const minimumProceedsWei = options.minimumProceedsWei ?? null;
+  if (minimumProceedsWei === null || minimumProceedsWei <= 0n) {
+    return configuredBps;
+  }
+
+  const treasuryLower = TREASURY_ADDRESS.toLowerCase();
+  const previousProceedsWei = previous.components.consideration
+    .filter((item) => item.recipient.toLowerCase() === treasuryLower)
+    .reduce((total, item) => total + BigInt(item.endAmount), 0n);
+  if (previousProceedsWei <= 0n) {
+    return configuredBps;
+  }
+
+  const requiredBps =
+    (minimumProceedsWei * BASIS_POINTS_DENOMINATOR + (previousProceedsWei - 1n)) /
+    previousProceedsWei;
+  return requiredBps > configuredBps ? requiredBps : configuredBps;
+}
+
+/**
+ * Signs the order and makes it fillable by posting it to OpenSea and/or validating it
+ * on-chain, as configured for the collection.
+ */
+async function publishListingOrder(
+  config: OpenSeaFetcherConfig,
+  protocolAddress: Address,
+  offerToken: Address,
+  orderComponents: OrderComponents,
+  listingPriceWei: bigint,
+  endPriceWei: bigint
+): Promise<
+  Omit<ListingResult, "sellerProceedsWei" | "listingPriceWei" | "endPriceWei" | "pricingInputs">
+> {
+  const seaport = getSeaport(protocolAddress);
   const orderHash = seaport.getOrderHash(orderComponents);
-  const signature = (await seaport.signOrder(orderComponents, TREASURY_ADDRESS)) as Hex;
+  const signature = await signListingOrder(seaport, orderComponents, orderHash);
 
   await debugLog({
     ts: new Date().toISOString(),
@@ -189,7 +498,37 @@ export async function createOpenSeaListing(
     signature
   });
 
-  await validateOrderOnchain(orderComponents, blueprint.protocolAddress, orderHash, signature);
+  const settings = getCollectionSettings(offerToken);
+  const postedToOpenSea = settings.postToOpenSea
+    ? await tryPostListing(config, protocolAddress, orderComponents, orderHash, signature)
+    : false;
+
+  let validatedOnchain = false;
+  if (settings.validateOnchain) {
+    try {
+      await validateOrderOnchain(orderComponents, protocolAddress, orderHash, signature);
+      validatedOnchain = true;
+      await debugLog({
+        ts: new Date().toISOString(),
+        event: "listing_validated_onchain",
+        orderHash
+      });
+    } catch (error) {
+      if (!postedToOpenSea) {
+        throw error;
+      }
+      logger.warn(
+        { orderHash, err: error instanceof Error ? error.message : String(error) },
+        "On-chain validation failed; listing remains available through the OpenSea orderbook"
+      );
+    }
+  }
+
+  if (!postedToOpenSea && !validatedOnchain) {
+    throw new Error(
+      `Listing ${orderHash} was neither posted to OpenSea nor validated on-chain; it is not fillable`
+    );
+  }
 
   await debugLog({
     ts: new Date().toISOString(),
@@ -198,30 +537,83 @@ export async function createOpenSeaListing(
     orderComponents: serializeForLog(orderComponents),
     signature,
     priceWei: listingPriceWei.toString(),
-    counter: counter.toString(),
-    salt: salt.toString()
+    endPriceWei: endPriceWei.toString(),
+    counter: orderComponents.counter.toString(),
+    salt: orderComponents.salt.toString(),
+    postedToOpenSea,
+    validatedOnchain
   });
 
-  await debugLog({
-    ts: new Date().toISOString(),
-    event: "listing_validated_onchain",
-    orderHash
-  });
-
-  const sellerIndex = blueprint.consideration.findIndex((item) => item.isSellerProceeds);
-  const sellerProceeds =
-    sellerIndex >= 0 && sellerIndex < consideration.length
-      ? consideration[sellerIndex]?.amount ?? 0n
-      : 0n;
-
   return {
     orderHash,
-    sellerProceedsWei: sellerProceeds,
-    listingPriceWei
+    postedToOpenSea,
+    validatedOnchain,
+    order: {
+      orderHash,
+      protocolAddress,
+      components: orderComponents,
+      signature,
+      createdAtMs: Date.now()
+    }
   };
 }
 
-async function validateOrderOnchain(
+async function tryPostListing(
+  config: OpenSeaFetcherConfig,
+  protocolAddress: Address,
+  orderComponents: OrderComponents,
+  orderHash: string,
+  signature: Hex
+): Promise<boolean> {
+  try {
+    const posted = await postListingToOpenSea(config, protocolAddress, orderComponents, signature);
+    if (posted.orderHash && posted.orderHash.toLowerCase() !== orderHash.toLowerCase()) {
+      logger.warn(
+        { orderHash, apiOrderHash: posted.orderHash },
+        "OpenSea returned a different order hash for posted listing"
+      );
+    }
+    await debugLog({
+      ts: new Date().toISOString(),
+      event: "listing_posted_to_opensea",
+      orderHash
+    });
+    return true;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    await debugLog({
+      ts: new Date().toISOString(),
+      event: "listing_post_error",
+      orderHash,
+      error: message
+    });
+    logger.warn({ orderHash, err: message }, "Failed to post listing to OpenSea orderbook");
+    return false;
+  }
+}
+
+async function signListingOrder(
+  seaport: ReturnType<typeof getSeaport>,
+  orderComponents: OrderComponents,
+  orderHash: string
+): Promise<Hex> {
+  if (DRY_RUN) {
+    recordShadowAction({
+      kind: "signOrder",
+      target: TREASURY_ADDRESS,
+      valueWei: 0n,
+      calldata: null,
+      decoded: { orderHash, orderComponents },
+      simulation: null,
+      txHash: null
+    });
+    return SHADOW_SIGNATURE;
+  }
+
+  return (await seaport.signOrder(orderComponents, TREASURY_ADDRESS)) as Hex;
+}
+
+export async function validateOrderOnchain(
   order: OrderComponents,
   protocolAddress: Address,
   orderHash: string,
@@ -263,50 +655,8 @@ async function validateOrderOnchain(
     throw error;
   }
 }
-function computeListingPrice(basePrice: bigint, markupBps?: number): bigint {
-  if (basePrice <= 0n) {
-    return 0n;
-  }
-  const bps = BigInt(markupBps ?? DEFAULT_MARKUP_BPS);
-  return (basePrice * bps + (BASIS_POINTS_DENOMINATOR - 1n)) / BASIS_POINTS_DENOMINATOR;
-}
-
-function scaleConsiderationAmounts(
-  items: readonly OpenSeaListingConsiderationBlueprint[],
-  originalTotal: bigint,
-  newTotal: bigint
-): Array<ScaledConsiderationItem> {
-  const scaled: Array<ScaledConsiderationItem> = [];
-  if (originalTotal === 0n || newTotal === 0n) {
-    return scaled;
-  }
-
-  let remainder = newTotal;
-
-  for (let index = 0; index < items.length; index += 1) {
-    const item = items[index];
-    if (!item) {
-      continue;
-    }
-    let amount = (newTotal * item.originalAmount) / originalTotal;
-    if (index === items.length - 1) {
-      amount = remainder > 0n ? remainder : 0n;
-    } else {
-      remainder -= amount;
-    }
-
-    const recipient = item.isSellerProceeds ? TREASURY_ADDRESS : item.recipient;
-
-    scaled.push({
-      itemType: item.itemType,
-      token: item.token,
-      identifierOrCriteria: item.identifierOrCriteria,
-      amount,
-      recipient
-    });
-  }
-
-  return scaled;
+function scaleAmounts(amounts: readonly bigint[], bps: bigint): bigint[] {
+  return amounts.map((amount) => (amount * bps) / BASIS_POINTS_DENOMINATOR);
 }
 
 async function waitForNftOwnership(
@@ -385,18 +735,19 @@ async function waitForNftOwnership(
   );
 }
 
+/** Returns the gas paid for an approval transaction, or zero if none was needed. */
 async function ensureConduitApproval(
   collection: Address,
   conduitKey: Hex,
   protocolAddress: Address
-): Promise<void> {
+): Promise<bigint> {
   if (collection === ZERO_ADDRESS) {
-    return;
+    return 0n;
   }
 
   const approvalTarget = await resolveApprovalTarget(conduitKey, protocolAddress);
   if (approvalTarget === ZERO_ADDRESS) {
-    return;
+    return 0n;
   }
 
   const collectionAllowed = await publicClient.readContract({
@@ -414,7 +765,7 @@ async function ensureConduitApproval(
 
   const approved = await isApprovedForAll(collection, approvalTarget);
   if (approved) {
-    return;
+    return 0n;
   }
 
   await debugLog({
@@ -432,7 +783,7 @@ async function ensureConduitApproval(
     collection,
     approvalTarget
   });
-  await waitForReceipt(txHash);
+  const receipt = await waitForReceipt(txHash);
 
   await debugLog({
     ts: new Date().toISOString(),
@@ -441,6 +792,7 @@ async function ensureConduitApproval(
     collection,
     approvalTarget
   });
+  return receipt.gasUsed * receipt.effectiveGasPrice;
 }
 
 async function resolveApprovalTarget(conduitKey: Hex, protocolAddress: Address): Promise<Address> {
@@ -472,32 +824,6 @@ async function isApprovedForAll(collection: Address, operator: Address): Promise
   return Boolean(approved);
 }
 
-function serializeForLog(value: unknown): unknown {
-  if (typeof value === "bigint") {
-    return value.toString();
-  }
-  if (Array.isArray(value)) {
-    return value.map(serializeForLog);
-  }
-  if (value && typeof value === "object") {
-    return Object.fromEntries(
-      Object.entries(value as Record<string, unknown>).map(([key, entryValue]) => [
-        key,
-        serializeForLog(entryValue)
-      ])
-    );
-  }
-  return value;
-}
-
-interface ScaledConsiderationItem {
-  readonly itemType: number;
-  readonly token: Address;
-  readonly identifierOrCriteria: bigint;
-  readonly amount: bigint;
-  readonly recipient: Address;
-}
-
 function delay(ms: number): Promise<void> {
   return new Promise((resolve) => {
     setTimeout(resolve, ms);
@@ -0,0 +1,107 @@
+import { parseEther } from "viem";
+
+import { TREASURY_ADDRESS } from "../config.js";
+import type { Address } from "../types.js";
+import { getOpenSeaSdk } from "./openseaClients.js";
+
+export interface CollectionMarketData {
+  readonly collectionSlug: string;
+  readonly floorPriceWei: bigint | null;
+  readonly bestListingPriceWei: bigint | null;
+  readonly recentSaleMedianWei: bigint | null;
+  readonly recentSaleCount: number;
+  readonly fetchedAtMs: number;
+}
+
+export interface CollectionFee {
+  readonly recipient: Address;
+  readonly basisPoints: bigint;
+}
+
+const BEST_LISTINGS_SAMPLE = 10;
+const RECENT_SALES_SAMPLE = 20;
+const NATIVE_TOKEN_ADDRESS = "0x0000000000000000000000000000000000000000";
+const NATIVE_SYMBOL = "ETH";
+
+/**
+ * Reads the collection floor, the cheapest native-currency listings and recent native-currency
+ * sales from OpenSea. Treasury listings are left out so our own asks never set the floor.
+ */
+export async function fetchCollectionMarketData(
+  collectionSlug: string
+): Promise<CollectionMarketData> {
+  const api = getOpenSeaSdk().api;
+  const [stats, bestListings, events] = await Promise.all([
+    api.getCollectionStats(collectionSlug),
+    api.getBestListings(collectionSlug, BEST_LISTINGS_SAMPLE),
+    api.getEventsByCollection(collectionSlug, { event_type: "sale", limit: RECENT_SALES_SAMPLE })
+  ]);
+
+  const floorPriceWei =
+    stats.total.floor_price > 0 && stats.total.floor_price_symbol === NATIVE_SYMBOL
+      ? parseEther(stats.total.floor_price.toFixed(18))
+      : null;
+
+  const treasuryLower = TREASURY_ADDRESS.toLowerCase();
+  const listingPrices = bestListings.listings
+    .filter(
+      (listing) =>
+        listing.protocol_data.parameters.offerer.toLowerCase() !== treasuryLower &&
+        listing.price.current.currency === NATIVE_SYMBOL
+    )
+    .map((listing) => BigInt(listing.price.current.value));
+  const bestListingPriceWei =
+    listingPrices.length > 0
+      ? listingPrices.reduce((lowest, price) => (price < lowest ? price : lowest))
+      : null;
+
+  const salePrices = events.asset_events
+    .flatMap((event) => (event.event_type === "sale" && "payment" in event ? [event] : []))
+    .filter((event) => event.payment.token_address.toLowerCase() === NATIVE_TOKEN_ADDRESS)
+    .map((event) => BigInt(event.payment.quantity));
+
+  return {
+    collectionSlug,
+    floorPriceWei,
+    bestListingPriceWei,
+    recentSaleMedianWei: median(salePrices),
+    recentSaleCount: salePrices.length,
+    fetchedAtMs: Date.now()
+  };
+}
+
+/** Looks up the OpenSea collection slug for a token when the listing blueprint lacks one. */
+export async function resolveCollectionSlug(
+  collection: Address,
+  tokenId: bigint
+): Promise<string> {
+  const response = await getOpenSeaSdk().api.getNFT(collection, tokenId.toString());
+  return response.nft.collection;
+}
+
+/**
+ * Reads the fees OpenSea currently requires on listings for the collection. Optional creator
+ * fees are left out. OpenSea reports fees as percentages, e.g. `2.5`.
+ */
+export async function fetchRequiredCollectionFees(
+  collectionSlug: string
+): Promise<CollectionFee[]> {
+  const collection = await getOpenSeaSdk().api.getCollection(collectionSlug);
+  return collection.fees
+    .filter((fee) => fee.required && fee.fee > 0)
+    .map((fee) => ({
+      recipient: fee.recipient as Address,
+      basisPoints: BigInt(Math.round(fee.fee * 100))
+    }));
+}
+
+function median(values: readonly bigint[]): bigint | null {
+  if (values.length === 0) {
+    return null;
+  }
+  const sorted = [...values].sort((left, right) => (left < right ? -1 : left > right ? 1 : 0));
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1
+    ? sorted[middle]!
+    : (sorted[middle - 1]! + sorted[middle]!) / 2n;
+}
@@ -0,0 +1,190 @@
+import type { OrderComponents } from "@opensea/seaport-js/lib/types.js";
+
+import { DRY_RUN } from "../config.js";
+import { recordShadowAction } from "../shadow.js";
+import type { Address, Hex } from "../types.js";
+import { OPENSEA_CHAIN_SLUG, debugLog, type OpenSeaFetcherConfig } from "./opensea.js";
+import { getOpenSeaSdk } from "./openseaClients.js";
+
+export interface OpenSeaListingPayload {
+  readonly protocol_address: string;
+  readonly parameters: {
+    readonly offerer: string;
+    readonly offer: readonly {
+      readonly itemType: number;
+      readonly token: string;
+      readonly identifierOrCriteria: string;
+      readonly startAmount: string;
+      readonly endAmount: string;
+    }[];
+    readonly consideration: readonly {
+      readonly itemType: number;
+      readonly token: string;
+      readonly identifierOrCriteria: string;
+      readonly startAmount: string;
+      readonly endAmount: string;
+      readonly recipient: string;
+    }[];
+    readonly startTime: string;
+    readonly endTime: string;
+    readonly orderType: number;
+    readonly zone: string;
+    readonly zoneHash: string;
+    readonly salt: string;
+    readonly conduitKey: string;
+    readonly totalOriginalConsiderationItems: number;
+    readonly counter: string;
+  };
+  readonly signature: Hex;
+  readonly restricted_by_zone: boolean;
+}
+
+export interface PostedListing {
+  readonly orderHash: string | null;
+}
+
+export function formatListingApiPayload(
+  protocolAddress: Address,
+  order: OrderComponents,
+  signature: Hex
+): OpenSeaListingPayload {
+  return {
+    protocol_address: protocolAddress.toLowerCase(),
+    parameters: {
+      offerer: order.offerer,
+      offer: order.offer.map((item) => ({
+        itemType: Number(item.itemType),
+        token: item.token,
+        identifierOrCriteria: item.identifierOrCriteria.toString(),
+        startAmount: item.startAmount.toString(),
+        endAmount: item.endAmount.toString()
+      })),
+      consideration: order.consideration.map((item) => ({
+        itemType: Number(item.itemType),
+        token: item.token,
+        identifierOrCriteria: item.identifierOrCriteria.toString(),
+        startAmount: item.startAmount.toString(),
+        endAmount: item.endAmount.toString(),
+        recipient: item.recipient
+      })),
+      startTime: order.startTime.toString(),
+      endTime: order.endTime.toString(),
+      orderType: Number(order.orderType),
+      zone: order.zone,
+      zoneHash: order.zoneHash,
+      salt: `0x${BigInt(order.salt).toString(16).padStart(64, "0")}`,
+      conduitKey: order.conduitKey,
+      totalOriginalConsiderationItems: Number(order.totalOriginalConsiderationItems),
+      counter: order.counter.toString()
+    },
+    signature,
+    restricted_by_zone: false
+  };
+}
+
+/**
+ * Looks up one of our posted listings on the OpenSea orderbook and returns its signed order
+ * components. Throws if OpenSea does not know the order.
+ */
+export async function fetchListingFromOpenSea(
+  orderHash: string,
+  protocolAddress: Address
+): Promise<{ readonly parameters: OrderComponents; readonly signature: Hex }> {
+  const order = await getOpenSeaSdk().api.getOrderByHash(orderHash, protocolAddress);
+  if (!order.protocolData?.parameters) {
+    throw new Error(`OpenSea returned order ${orderHash} without protocol data`);
+  }
+  return {
+    parameters: order.protocolData.parameters,
+    signature: (order.protocolData.signature ?? "0x") as Hex
+  };
+}
+
+export async function postListingToOpenSea(
+  config: OpenSeaFetcherConfig,
+  protocolAddress: Address,
+  order: OrderComponents,
+  signature: Hex
+): Promise<PostedListing> {
+  const chainSlug = OPENSEA_CHAIN_SLUG[config.chainId];
+  if (!chainSlug) {
+    throw new Error(`OpenSea listings API does not support chain ${config.chainId}`);
+  }
+
+  const payload = formatListingApiPayload(protocolAddress, order, signature);
+  const url = `${config.apiUrl.replace(/\/+$/, "")}/api/v2/orders/${chainSlug}/seaport/listings`;
+
+  if (DRY_RUN) {
+    recordShadowAction({
+      kind: "postListing",
+      target: null,
+      valueWei: 0n,
+      calldata: null,
+      decoded: { url, payload },
+      simulation: null,
+      txHash: null
+    });
+    return { orderHash: null };
+  }
+
+  await debugLog({
+    ts: new Date().toISOString(),
+    event: "listing_post_request",
+    url,
+    payload
+  });
+
+  const response = await fetch(url, {
+    method: "POST",
+    headers: {
+      "content-type": "application/json",
+      accept: "application/json",
+      "x-api-key": config.apiKey
+    },
+    body: JSON.stringify(payload)
+  });
+
+  const rawBody = await response.text();
+  const body = parseResponseBody(rawBody);
+
+  await debugLog({
+    ts: new Date().toISOString(),
+    event: "listing_post_response",
+    status: response.status,
+    body
+  });
+
+  if (!response.ok) {
+    throw new Error(
+      `OpenSea rejected listing (HTTP ${response.status}): ${describeApiErrors(body, rawBody)}`
+    );
+  }
+
+  const orderHash =
+    body && typeof body === "object" && "order" in body
+      ? ((body as { order?: { order_hash?: unknown } }).order?.order_hash ?? null)
+      : null;
+
+  return { orderHash: typeof orderHash === "string" ? orderHash : null };
+}
+
+function parseResponseBody(raw: string): unknown {
+  if (raw.trim().length === 0) {
+    return null;
+  }
+  try {
+    return JSON.parse(raw) as unknown;
+  } catch {
+    return raw;
+  }
+}
+
+function describeApiErrors(body: unknown, rawBody: string): string {
+  if (body && typeof body === "object" && "errors" in body) {
+    const errors = (body as { errors: unknown }).errors;
+    if (Array.isArray(errors) && errors.length > 0) {
+      return errors.map((entry) => String(entry)).join("; ");
+    }
+  }
+  return rawBody.length > 0 ? rawBody.slice(0, 500) : "empty response";
+}
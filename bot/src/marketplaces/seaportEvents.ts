@@ -0,0 +1,123 @@
+import { getAddress } from "viem";
+
+import { publicClient } from "../treasuryClient.js";
+import type { Address, Hex } from "../types.js";
+
+export const ORDER_FULFILLED_EVENT = {
+  type: "event",
+  name: "OrderFulfilled",
+  inputs: [
+    { name: "orderHash", type: "bytes32", indexed: false },
+    { name: "offerer", type: "address", indexed: true },
+    { name: "zone", type: "address", indexed: true },
+    { name: "recipient", type: "address", indexed: false },
+    {
+      name: "offer",
+      type: "tuple[]",
+      indexed: false,
+      components: [
+        { name: "itemType", type: "uint8" },
+        { name: "token", type: "address" },
+        { name: "identifier", type: "uint256" },
+        { name: "amount", type: "uint256" }
+      ]
+    },
+    {
+      name: "consideration",
+      type: "tuple[]",
+      indexed: false,
+      components: [
+        { name: "itemType", type: "uint8" },
+        { name: "token", type: "address" },
+        { name: "identifier", type: "uint256" },
+        { name: "amount", type: "uint256" },
+        { name: "recipient", type: "address" }
+      ]
+    }
+  ]
+} as const;
+
+export interface SeaportSpentItem {
+  readonly itemType: number;
+  readonly token: Address;
+  readonly identifier: bigint;
+  readonly amount: bigint;
+}
+
+export interface SeaportReceivedItem extends SeaportSpentItem {
+  readonly recipient: Address;
+}
+
+export interface SeaportFillEvent {
+  readonly orderHash: Hex;
+  readonly offerer: Address;
+  readonly recipient: Address;
+  readonly offer: readonly SeaportSpentItem[];
+  readonly consideration: readonly SeaportReceivedItem[];
+  readonly txHash: Hex;
+  readonly logIndex: number;
+  readonly blockNumber: bigint;
+}
+
+/**
+ * Returns every `OrderFulfilled` log in the inclusive block range where `offerer` was the
+ * maker, across all of the given Seaport deployments.
+ */
+export async function fetchOrderFulfillments(
+  protocolAddresses: readonly Address[],
+  offerer: Address,
+  fromBlock: bigint,
+  toBlock: bigint
+): Promise<SeaportFillEvent[]> {
+  if (protocolAddresses.length === 0) {
+    return [];
+  }
+
+  const logs = await publicClient.getLogs({
+    address: [...protocolAddresses],
+    event: ORDER_FULFILLED_EVENT,
+    args: { offerer },
+    fromBlock,
+    toBlock
+  });
+
+  const fills: SeaportFillEvent[] = [];
+  for (const log of logs) {
+    const args = log.args;
+    if (
+      !args ||
+      !args.orderHash ||
+      !args.offerer ||
+      !args.recipient ||
+      !log.transactionHash ||
+      log.logIndex === null ||
+      log.blockNumber === null
+    ) {
+      continue;
+    }
+
+    fills.push({
+      orderHash: args.orderHash,
+      offerer: getAddress(args.offerer),
+      recipient: getAddress(args.recipient),
+      offer: (args.offer ?? []).map((item) => ({
+        itemType: Number(item.itemType),
+        token: getAddress(item.token),
+        identifier: item.identifier,
+        amount: item.amount
+      })),
+      consideration: (args.consideration ?? []).map((item) => ({
+        itemType: Number(item.itemType),
+        token: getAddress(item.token),
+        identifier: item.identifier,
+        amount: item.amount,
+        recipient: getAddress(item.recipient)
+      })),
+      txHash: log.transactionHash,
+      logIndex: log.logIndex,
+      blockNumber: log.blockNumber
+    });
+  }
+
+  return fills;
+}
@@ -1,29 +1,77 @@
-import { encodeFunctionData } from "viem";
 import {
   ACTION_COOLDOWN_MS,
+  BUYBACK_BACKEND,
   BUYBACK_CHUNK_WEI,
+  BUYBACK_MIN_CHUNK_WEI,
+  BUYBACK_PATH,
   BUYBACK_ROUTER_ADDRESS,
+  BUYBACK_V3_FEE,
+  BUYBACK_V3_QUOTER_ADDRESS,
   BURN_ADDRESS,
+  DRY_RUN,
   TOKEN_ADDRESS,
   TREASURY_ADDRESS,
-  WETH_ADDRESS
+  WETH_ADDRESS,
+  type BuybackBackend
 } from "../config.js";
-import type { BotState } from "../types.js";
+import type {
+  Address,
+  BotState,
+  BuybackJob,
+  BuybackJobStatus,
+  Hex,
+  PresignedTransaction
+} from "../types.js";
 import { StateStore } from "../state/stateStore.js";
-import { publicClient, executeSeaport, waitForReceipt } from "../treasuryClient.js";
+import type { BuybackQuote } from "./buybackQuote.js";
+import {
+  chargeBuybackSlices,
+  getBuybackAllowance,
+  syncBuybackSchedule
+} from "./buybackSchedule.js";
+import { createV2SwapBackend } from "./buybackV2.js";
+import { createV3SwapBackend } from "./buybackV3.js";
+import { encodeSinkCall, planTokenSink, verifySinkLeg } from "./tokenSink.js";
+import { sumTokenTransfers } from "./tokenTransfers.js";
+import {
+  isContractRevert,
+  publicClient,
+  settlePresignedTransaction,
+  signExecuteSeaport,
+  simulateExecuteSeaport
+} from "../treasuryClient.js";
 import { logger } from "../utils/logger.js";
 import { delay } from "../utils/time.js";
 
-const SWAP_FUNCTION_ABI = {
-  type: "function",
-  name: "swapExactETHForTokensSupportingFeeOnTransferTokens",
-  inputs: [
-    { name: "amountOutMin", type: "uint256" },
-    { name: "path", type: "address[]" },
-    { name: "to", type: "address" },
-    { name: "deadline", type: "uint256" }
-  ]
-} as const;
+/** A DEX the buyback swaps through; its calldata runs through the treasury's executeSeaport. */
+export interface SwapBackend {
+  readonly kind: BuybackBackend;
+  readonly router: Address;
+  /** Human-readable swap path for logs. */
+  readonly route: string;
+  /** Sizes and quotes the next chunk, or null when no chunk stays under the price impact limit. */
+  planChunk(amountInWei: bigint): Promise<BuybackQuote | null>;
+  /** Router calldata swapping `quote.amountInWei` of ETH into the token for `recipient`. */
+  encodeSwap(quote: BuybackQuote, recipient: Address, deadline: bigint): Hex;
+}
+
+/** Builds the `BUYBACK_BACKEND` integration over `BUYBACK_PATH`, or WETH -> token when unset. */
+function resolveSwapBackend(router: Address, weth: Address, token: Address): SwapBackend {
+  const hops = BUYBACK_PATH ?? [{ token, fee: BUYBACK_V3_FEE }];
+  if (BUYBACK_BACKEND === "v2") {
+    return createV2SwapBackend(router, [weth, ...hops.map((hop) => hop.token)]);
+  }
+
+  if (!BUYBACK_V3_QUOTER_ADDRESS) {
+    throw new Error("BUYBACK_V3_QUOTER_ADDRESS is not configured");
+  }
+  return createV3SwapBackend(
+    router,
+    BUYBACK_V3_QUOTER_ADDRESS,
+    weth,
+    hops.map((hop) => ({ token: hop.token, fee: hop.fee ?? BUYBACK_V3_FEE }))
+  );
+}
 
 const BALANCE_OF_ABI = [
   {
@@ -35,19 +83,6 @@ const BALANCE_OF_ABI = [
   }
 ] as const;
 
-const TRANSFER_ABI = [
-  {
-    type: "function",
-    name: "transfer",
-    stateMutability: "nonpayable",
-    inputs: [
-      { name: "recipient", type: "address" },
-      { name: "amount", type: "uint256" }
-    ],
-    outputs: [{ name: "", type: "bool" }]
-  }
-] as const;
-
 const TREASURY_ROUTERS_ABI = [
   {
     type: "function",
@@ -58,60 +93,298 @@ const TREASURY_ROUTERS_ABI = [
   }
 ] as const;
 
-async function completePendingBurn(
+const TERMINAL_JOB_STATUSES: readonly BuybackJobStatus[] = ["burned", "failed"];
+/** On-chain sink reverts after which a job is failed and left to an operator. */
+const MAX_SINK_REVERTS = 3;
+
+/**
+ * Drives a buyback job to `burned` or `failed`, one persisted step at a time. Every step starts
+ * from what was stored, and submitted transactions are settled from their receipts, so a job
+ * interrupted at any point resumes without sending anything twice.
+ */
+async function advanceBuybackJob(
   stateStore: StateStore,
-  state: BotState,
-  spentWeiOverride?: bigint
+  job: BuybackJob,
+  token: Address
 ): Promise<void> {
-  if (state.pendingBurnAmount <= 0n) {
-    return;
+  let current = job;
+  while (!TERMINAL_JOB_STATUSES.includes(current.status)) {
+    switch (current.status) {
+      case "planned":
+        logger.warn(
+          { jobId: current.id },
+          "Buyback job was interrupted before its swap was signed"
+        );
+        current = stateStore.saveBuybackJob({
+          ...current,
+          status: "failed",
+          error: "Interrupted before the swap was signed"
+        });
+        break;
+      case "swap_submitted":
+        current = await confirmSwap(stateStore, current, token);
+        break;
+      case "swap_confirmed":
+        current = await submitBurn(stateStore, current, token);
+        break;
+      case "burn_submitted": {
+        const legsDone = current.sinkLegsDone;
+        current = await confirmBurn(stateStore, current, token);
+        if (current.status === "swap_confirmed" && current.sinkLegsDone === legsDone) {
+          // The leg did not land; sign a fresh one on the next iteration.
+          return;
+        }
+        break;
+      }
+      default:
+        return;
+    }
+  }
+}
+
+async function confirmSwap(
+  stateStore: StateStore,
+  job: BuybackJob,
+  token: Address
+): Promise<BuybackJob> {
+  const swapTx = requirePresigned(job.swapTx, job, "swap");
+  const result = await settlePresignedTransaction(swapTx);
+  if (result.status !== "success") {
+    logger.warn(
+      { jobId: job.id, txHash: swapTx.hash, outcome: result.status },
+      "Buyback swap did not go through; nothing was spent"
+    );
+    return stateStore.saveBuybackJob({ ...job, status: "failed", error: `Swap ${result.status}` });
+  }
+
+  // Counted from the swap's own logs, so a job settled long after the swap is not credited
+  // with token movements that happened since. Shadow receipts carry no logs, so a dry run takes
+  // the quote's expected output instead.
+  const purchasedAmount = DRY_RUN
+    ? job.expectedOut
+    : sumTokenTransfers(result.receipt.logs, token, { to: TREASURY_ADDRESS });
+
+  const state = stateStore.getState();
+  state.pendingBurnAmount = purchasedAmount;
+  state.pendingBurnCostWei = job.amountInWei;
+  return stateStore.saveBuybackJob(
+    { ...job, status: "swap_confirmed", purchasedAmount, sinkPlan: planTokenSink(purchasedAmount) },
+    {
+      outflow: {
+        txHash: swapTx.hash,
+        blockNumber: result.receipt.blockNumber,
+        amountWei: job.amountInWei,
+        reason: "buyback"
+      },
+      slices: chargeBuybackSlices(stateStore, job.amountInWei)
+    }
+  );
+}
+
+/** Sends the next leg of the job's sink plan, or completes the job once every leg is done. */
+async function submitBurn(
+  stateStore: StateStore,
+  job: BuybackJob,
+  token: Address
+): Promise<BuybackJob> {
+  const state = stateStore.getState();
+  const sinkPlan = job.sinkPlan ?? planTokenSink(job.purchasedAmount ?? 0n);
+  const leg = sinkPlan[job.sinkLegsDone];
+  if (!leg) {
+    if (sinkPlan.length === 0) {
+      logger.warn({ jobId: job.id }, "Buyback swap completed but no tokens were received");
+    }
+    const spentWei = deductBuybackCost(state, job.amountInWei);
+    const saved = stateStore.saveBuybackJob({ ...job, status: "burned", sinkPlan });
+    if (sinkPlan.length > 0) {
+      logger.info(
+        {
+          jobId: job.id,
+          spentWei: spentWei.toString(),
+          sunkAmount: (job.purchasedAmount ?? 0n).toString(),
+          legs: sinkPlan.length,
+          remainingSalePool: state.salePoolWei.toString()
+        },
+        "Buyback and burn completed"
+      );
+    }
+    return saved;
   }
 
-  if (!TOKEN_ADDRESS) {
-    throw new Error("TOKEN_ADDRESS is not configured");
+  const request = { router: token, valueWei: 0n, calldata: encodeSinkCall(leg), callValueWei: 0n };
+  try {
+    await simulateExecuteSeaport(request);
+  } catch (error) {
+    if (!isContractRevert(error)) {
+      throw error;
+    }
+    const message = error instanceof Error ? error.message : String(error);
+    return failSinkLeg(
+      stateStore,
+      { ...job, sinkPlan },
+      `Sink leg ${job.sinkLegsDone + 1} reverts in simulation: ${message}`
+    );
   }
 
-  const burnAmount = state.pendingBurnAmount;
-  const burnCalldata = encodeFunctionData({
-    abi: TRANSFER_ABI,
-    functionName: "transfer",
-    args: [BURN_ADDRESS, burnAmount]
+  const tokenBalanceBeforeBurn = await readTokenBalance(token);
+  const burnTx = await signExecuteSeaport(request);
+  const saved = stateStore.saveBuybackJob({
+    ...job,
+    status: "burn_submitted",
+    sinkPlan,
+    tokenBalanceBeforeBurn,
+    burnTx
   });
+  logger.info(
+    {
+      jobId: job.id,
+      leg: job.sinkLegsDone + 1,
+      legs: sinkPlan.length,
+      sink: leg.kind,
+      recipient: leg.recipient,
+      amount: leg.amount.toString(),
+      txHash: burnTx.hash
+    },
+    leg.kind === "burn" ? "Submitted token burn" : "Submitted token sink transfer"
+  );
+  return saved;
+}
 
-  const burnTx = await executeSeaport({
-    router: TOKEN_ADDRESS,
-    valueWei: 0n,
-    calldata: burnCalldata,
-    callValueWei: 0n
+/**
+ * Settles the current sink leg and verifies its effect on chain. A leg that did not land is
+ * signed again, up to `MAX_SINK_REVERTS` on-chain reverts; one that landed but fails
+ * verification is logged and kept on the job, since the tokens have already left the treasury.
+ */
+async function confirmBurn(
+  stateStore: StateStore,
+  job: BuybackJob,
+  token: Address
+): Promise<BuybackJob> {
+  const burnTx = requirePresigned(job.burnTx, job, "burn");
+  // Jobs signed before sink plans existed sent everything to BURN_ADDRESS in one transfer.
+  const sinkPlan = job.sinkPlan ?? [
+    { kind: "transfer" as const, recipient: BURN_ADDRESS, amount: job.purchasedAmount ?? 0n }
+  ];
+  const leg = sinkPlan[job.sinkLegsDone];
+  if (!leg) {
+    throw new Error(`Buyback job ${job.id} is ${job.status} without a sink leg to confirm`);
+  }
+
+  const result = await settlePresignedTransaction(burnTx);
+  if (result.status !== "success") {
+    const error = `Sink leg ${job.sinkLegsDone + 1} ${result.status}`;
+    const sinkReverts = job.sinkReverts + (result.status === "reverted" ? 1 : 0);
+    if (sinkReverts >= MAX_SINK_REVERTS) {
+      return failSinkLeg(
+        stateStore,
+        { ...job, sinkPlan, sinkReverts },
+        `${error} ${sinkReverts} times`
+      );
+    }
+    logger.warn(
+      { jobId: job.id, txHash: burnTx.hash, outcome: result.status, sinkReverts },
+      "Token sink transaction did not go through; it will be signed again"
+    );
+    return stateStore.saveBuybackJob({
+      ...job,
+      status: "swap_confirmed",
+      sinkReverts,
+      tokenBalanceBeforeBurn: null,
+      burnTx: null,
+      error
+    });
+  }
+
+  // Shadow receipts carry no logs, so there is nothing to verify a simulated leg against.
+  const shortfall = DRY_RUN ? null : verifySinkLeg(token, leg, result.receipt);
+  if (shortfall) {
+    logger.error(
+      { jobId: job.id, txHash: burnTx.hash, sink: leg.kind, recipient: leg.recipient, shortfall },
+      "Token sink verification failed"
+    );
+  }
+  return stateStore.saveBuybackJob({
+    ...job,
+    status: "swap_confirmed",
+    sinkPlan,
+    sinkLegsDone: job.sinkLegsDone + 1,
+    tokenBalanceBeforeBurn: null,
+    burnTx: null,
+    error: shortfall ? `Sink leg ${job.sinkLegsDone + 1} verification: ${shortfall}` : job.error
   });
-  logger.info({ amount: burnAmount.toString(), txHash: burnTx }, "Submitted burn transfer");
-  await waitForReceipt(burnTx);
+}
 
-  const costSource = spentWeiOverride ?? state.pendingBurnCostWei;
-  const costToDeduct =
-    costSource > 0n
-      ? state.salePoolWei >= costSource
-        ? costSource
-        : state.salePoolWei
-      : 0n;
+/**
+ * Gives up on a job whose sink keeps reverting. The swap's cost is still taken from the sale
+ * pool; the tokens not yet sunk stay in the treasury for an operator to handle.
+ */
+function failSinkLeg(stateStore: StateStore, job: BuybackJob, error: string): BuybackJob {
+  const unsunkAmount = (job.sinkPlan ?? [])
+    .slice(job.sinkLegsDone)
+    .reduce((total, leg) => total + leg.amount, 0n);
+  deductBuybackCost(stateStore.getState(), job.amountInWei);
+  logger.error(
+    { jobId: job.id, error, unsunkAmount: unsunkAmount.toString() },
+    "Token sink keeps reverting; buyback job failed and its tokens stay in the treasury"
+  );
+  return stateStore.saveBuybackJob({
+    ...job,
+    status: "failed",
+    tokenBalanceBeforeBurn: null,
+    error
+  });
+}
 
+/** Clears the pending burn and takes its cost out of the sale pool, clamped at zero. */
+function deductBuybackCost(state: BotState, costWei: bigint): bigint {
+  const costToDeduct = state.salePoolWei >= costWei ? costWei : state.salePoolWei;
   state.pendingBurnAmount = 0n;
   state.pendingBurnCostWei = 0n;
+  state.salePoolWei -= costToDeduct;
+  return costToDeduct;
+}
 
-  if (costToDeduct > 0n) {
-    state.salePoolWei -= costToDeduct;
+/**
+ * Wraps a pending burn left by a version without buyback jobs in a job at `swap_confirmed`, so
+ * it is burned through the same steps.
+ */
+function adoptLegacyPendingBurn(stateStore: StateStore, state: BotState): BuybackJob | null {
+  if (state.pendingBurnAmount <= 0n) {
+    return null;
   }
+  const planned = stateStore.createBuybackJob({
+    amountInWei: state.pendingBurnCostWei,
+    minAmountOut: 0n,
+    expectedOut: state.pendingBurnAmount,
+    tokenBalanceBeforeSwap: 0n
+  });
+  return stateStore.saveBuybackJob({
+    ...planned,
+    status: "swap_confirmed",
+    purchasedAmount: state.pendingBurnAmount,
+    sinkPlan: planTokenSink(state.pendingBurnAmount)
+  });
+}
 
-  await stateStore.save();
+function requirePresigned(
+  tx: PresignedTransaction | null,
+  job: BuybackJob,
+  step: "swap" | "burn"
+): PresignedTransaction {
+  if (!tx) {
+    throw new Error(`Buyback job ${job.id} is ${job.status} without a ${step} transaction`);
+  }
+  return tx;
+}
 
-  logger.info(
-    {
-      spentWei: costToDeduct.toString(),
-      burnedAmount: burnAmount.toString(),
-      remainingSalePool: state.salePoolWei.toString()
-    },
-    "Buyback and burn completed"
-  );
+async function readTokenBalance(token: Address): Promise<bigint> {
+  return publicClient.readContract({
+    address: token,
+    abi: BALANCE_OF_ABI,
+    functionName: "balanceOf",
+    args: [TREASURY_ADDRESS],
+    blockTag: "latest"
+  });
 }
 
 export async function performBuybackAndBurn(stateStore: StateStore): Promise<boolean> {
@@ -121,33 +394,51 @@ export async function performBuybackAndBurn(stateStore: StateStore): Promise<boo
 
   const state = stateStore.getState();
 
-  if (state.pendingBurnAmount > 0n) {
-    logger.info(
-      {
-        pendingAmount: state.pendingBurnAmount.toString(),
-        pendingCostWei: state.pendingBurnCostWei.toString()
-      },
-      "Retrying pending burn transfer"
-    );
-    await completePendingBurn(stateStore, state);
+  const activeJob = stateStore.getActiveBuybackJob() ?? adoptLegacyPendingBurn(stateStore, state);
+  if (activeJob) {
+    logger.info({ jobId: activeJob.id, status: activeJob.status }, "Resuming buyback job");
+    await advanceBuybackJob(stateStore, activeJob, TOKEN_ADDRESS);
     if (ACTION_COOLDOWN_MS > 0) {
       await delay(ACTION_COOLDOWN_MS);
     }
     return true;
   }
 
+  const nowMs = Date.now();
+  syncBuybackSchedule(stateStore, nowMs);
   if (state.salePoolWei <= 0n) {
     return false;
   }
 
-  const amountToUse =
-    BUYBACK_CHUNK_WEI && BUYBACK_CHUNK_WEI > 0n
-      ? state.salePoolWei < BUYBACK_CHUNK_WEI
-        ? state.salePoolWei
-        : BUYBACK_CHUNK_WEI
-      : state.salePoolWei;
+  const allowance = getBuybackAllowance(stateStore, nowMs);
+  const requestedAmount =
+    BUYBACK_CHUNK_WEI && BUYBACK_CHUNK_WEI > 0n && allowance.amountWei > BUYBACK_CHUNK_WEI
+      ? BUYBACK_CHUNK_WEI
+      : allowance.amountWei;
 
-  if (amountToUse <= 0n) {
+  if (requestedAmount <= 0n) {
+    if (allowance.dueWei > 0n) {
+      logger.debug(
+        {
+          dueWei: allowance.dueWei.toString(),
+          hourlyRemainingWei: allowance.hourlyRemainingWei?.toString() ?? null
+        },
+        "Buyback slices are due but the hourly spend cap is reached"
+      );
+    }
+    return false;
+  }
+
+  if (requestedAmount < BUYBACK_MIN_CHUNK_WEI) {
+    logger.debug(
+      {
+        requestedWei: requestedAmount.toString(),
+        minChunkWei: BUYBACK_MIN_CHUNK_WEI.toString(),
+        dueWei: allowance.dueWei.toString(),
+        hourlyRemainingWei: allowance.hourlyRemainingWei?.toString() ?? null
+      },
+      "Buyback amount available now is below the minimum chunk; waiting for more"
+    );
     return false;
   }
 
@@ -165,67 +456,58 @@ export async function performBuybackAndBurn(stateStore: StateStore): Promise<boo
     return false;
   }
 
-  const balanceBefore = await publicClient.readContract({
-    address: TOKEN_ADDRESS,
-    abi: BALANCE_OF_ABI,
-    functionName: "balanceOf",
-    args: [TREASURY_ADDRESS]
+  const backend = resolveSwapBackend(BUYBACK_ROUTER_ADDRESS, WETH_ADDRESS, TOKEN_ADDRESS);
+  let quote: BuybackQuote | null;
+  try {
+    quote = await backend.planChunk(requestedAmount);
+  } catch (error) {
+    logger.warn(
+      {
+        backend: backend.kind,
+        route: backend.route,
+        err: error instanceof Error ? error.message : String(error)
+      },
+      "Failed to quote buyback swap; skipping buyback"
+    );
+    return false;
+  }
+  if (!quote) {
+    return false;
+  }
+  const tokenBalanceBeforeSwap = await readTokenBalance(TOKEN_ADDRESS);
+  const planned = stateStore.createBuybackJob({
+    amountInWei: quote.amountInWei,
+    minAmountOut: quote.minAmountOut,
+    expectedOut: quote.expectedOut,
+    tokenBalanceBeforeSwap
   });
-
-  const swapCalldata = encodeFunctionData({
-    abi: [SWAP_FUNCTION_ABI],
-    functionName: "swapExactETHForTokensSupportingFeeOnTransferTokens",
-    args: [
-      0n,
-      [WETH_ADDRESS, TOKEN_ADDRESS],
+  const swapTx = await signExecuteSeaport({
+    router: backend.router,
+    valueWei: quote.amountInWei,
+    calldata: backend.encodeSwap(
+      quote,
       TREASURY_ADDRESS,
       BigInt(Math.floor(Date.now() / 1000) + 15 * 60)
-    ]
-  });
-
-  const swapTx = await executeSeaport({
-    router: BUYBACK_ROUTER_ADDRESS,
-    valueWei: amountToUse,
-    calldata: swapCalldata,
+    ),
     callValueWei: 0n
   });
-  logger.info({ amountWei: amountToUse.toString(), txHash: swapTx }, "Submitted buyback swap");
-  await waitForReceipt(swapTx);
-
-  let balanceAfter = balanceBefore;
-  for (let attempt = 0; attempt < 3; attempt += 1) {
-    balanceAfter = await publicClient.readContract({
-      address: TOKEN_ADDRESS,
-      abi: BALANCE_OF_ABI,
-      functionName: "balanceOf",
-      args: [TREASURY_ADDRESS],
-      blockTag: "latest"
-    });
-
-    if (balanceAfter > balanceBefore) {
-      break;
-    }
-
-    if (attempt < 2) {
-      await delay(1_000);
-    }
-  }
-
-  const purchasedAmount = balanceAfter > balanceBefore ? balanceAfter - balanceBefore : 0n;
-  if (purchasedAmount === 0n) {
-    logger.warn("Buyback swap completed but no tokens were received");
-    state.pendingBurnAmount = 0n;
-    state.pendingBurnCostWei = 0n;
-    state.salePoolWei = state.salePoolWei >= amountToUse ? state.salePoolWei - amountToUse : 0n;
-    await stateStore.save();
-    return true;
-  }
-
-  state.pendingBurnAmount = purchasedAmount;
-  state.pendingBurnCostWei = amountToUse;
-  await stateStore.save();
+  const submitted = stateStore.saveBuybackJob({ ...planned, status: "swap_submitted", swapTx });
+  logger.info(
+    {
+      jobId: submitted.id,
+      backend: backend.kind,
+      route: backend.route,
+      amountWei: quote.amountInWei.toString(),
+      expectedOut: quote.expectedOut.toString(),
+      minAmountOut: quote.minAmountOut.toString(),
+      priceImpactBps: quote.priceImpactBps,
+      quoteSource: quote.source,
+      txHash: swapTx.hash
+    },
+    "Submitted buyback swap"
+  );
 
-  await completePendingBurn(stateStore, state, amountToUse);
+  await advanceBuybackJob(stateStore, submitted, TOKEN_ADDRESS);
 
   if (ACTION_COOLDOWN_MS > 0) {
     await delay(ACTION_COOLDOWN_MS);
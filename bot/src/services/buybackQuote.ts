@@ -0,0 +1,73 @@
+import { BUYBACK_MAX_PRICE_IMPACT_BPS, BUYBACK_MIN_CHUNK_WEI } from "../config.js";
+import { logger } from "../utils/logger.js";
+
+const BPS_DENOMINATOR = 10_000n;
+const MAX_SHRINK_STEPS = 8;
+
+export interface BuybackQuote {
+  readonly amountInWei: bigint;
+  /** Tokens the pools send for `amountInWei`, before the token's transfer tax. */
+  readonly quotedOut: bigint;
+  /** Tokens the treasury should receive after the transfer tax. */
+  readonly expectedOut: bigint;
+  /**
+   * Minimum output passed to the router, less the slippage tolerance. V2 checks it against the
+   * treasury's balance after the transfer tax, V3 against the final pool's output before it.
+   */
+  readonly minAmountOut: bigint;
+  /** Shortfall of `quotedOut` against the backend's reference price. */
+  readonly priceImpactBps: number;
+  readonly source: "router" | "reserves" | "quoter";
+}
+
+/**
+ * Quotes `amountInWei` and shrinks it by halving while its price impact is above
+ * `BUYBACK_MAX_PRICE_IMPACT_BPS`. Returns null when no chunk of at least `BUYBACK_MIN_CHUNK_WEI`
+ * stays under the limit.
+ */
+export async function shrinkToImpactLimit(
+  amountInWei: bigint,
+  quote: (amountInWei: bigint) => Promise<BuybackQuote>
+): Promise<BuybackQuote | null> {
+  let amount = amountInWei;
+  for (let step = 0; step <= MAX_SHRINK_STEPS && amount > 0n; step += 1) {
+    if (amount < BUYBACK_MIN_CHUNK_WEI) {
+      break;
+    }
+    const result = await quote(amount);
+    if (result.priceImpactBps <= BUYBACK_MAX_PRICE_IMPACT_BPS) {
+      if (amount < amountInWei) {
+        logger.info(
+          {
+            requestedWei: amountInWei.toString(),
+            amountWei: amount.toString(),
+            priceImpactBps: result.priceImpactBps
+          },
+          "Shrunk buyback chunk to stay under the price impact limit"
+        );
+      }
+      return result;
+    }
+    amount /= 2n;
+  }
+
+  logger.warn(
+    {
+      requestedWei: amountInWei.toString(),
+      minChunkWei: BUYBACK_MIN_CHUNK_WEI.toString(),
+      maxPriceImpactBps: BUYBACK_MAX_PRICE_IMPACT_BPS
+    },
+    "No buyback chunk stays under the price impact limit; skipping buyback"
+  );
+  return null;
+}
+
+export function priceImpactBps(referenceOut: bigint, quotedOut: bigint): number {
+  return referenceOut > 0n && referenceOut > quotedOut
+    ? Number(((referenceOut - quotedOut) * BPS_DENOMINATOR) / referenceOut)
+    : 0;
+}
+
+export function applyBps(amount: bigint, deductionBps: number): bigint {
+  return (amount * (BPS_DENOMINATOR - BigInt(deductionBps))) / BPS_DENOMINATOR;
+}
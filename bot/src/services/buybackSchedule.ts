@@ -0,0 +1,171 @@
+import {
+  BUYBACK_MAX_WEI_PER_HOUR,
+  BUYBACK_MIN_CHUNK_WEI,
+  BUYBACK_TWAP_JITTER_MS,
+  BUYBACK_TWAP_SLICES,
+  BUYBACK_TWAP_WINDOW_MS
+} from "../config.js";
+import type { BuybackSlice } from "../types.js";
+import { StateStore } from "../state/stateStore.js";
+import { logger } from "../utils/logger.js";
+
+const ONE_HOUR_MS = 60 * 60 * 1000;
+const BUYBACK_OUTFLOW_REASON = "buyback";
+
+export interface BuybackAllowance {
+  /** What may be swapped now: due slices, capped by the pool and the hourly limit. */
+  readonly amountWei: bigint;
+  readonly dueWei: bigint;
+  /** Null when `BUYBACK_MAX_WEI_PER_HOUR` is not set. */
+  readonly hourlyRemainingWei: bigint | null;
+}
+
+/**
+ * Keeps the open slices in line with the buyback pool: balance that no slice covers yet
+ * becomes a new schedule, and slices covering balance the pool no longer has are trimmed,
+ * latest first. Budget already swapped but still awaiting its burn is not part of the pool.
+ */
+export function syncBuybackSchedule(stateStore: StateStore, nowMs: number): void {
+  const state = stateStore.getState();
+  const available =
+    state.salePoolWei > state.pendingBurnCostWei
+      ? state.salePoolWei - state.pendingBurnCostWei
+      : 0n;
+  const openSlices = stateStore.listOpenBuybackSlices();
+  const scheduled = openSlices.reduce((total, slice) => total + remainingWei(slice), 0n);
+
+  const lastSlice = openSlices[openSlices.length - 1];
+  if (available > scheduled && available - scheduled < BUYBACK_MIN_CHUNK_WEI && lastSlice) {
+    // Too little for a chunk of its own; the latest slice buys it along with its own amount.
+    stateStore.updateBuybackSlices([
+      { ...lastSlice, amountWei: lastSlice.amountWei + (available - scheduled) }
+    ]);
+  } else if (available > scheduled) {
+    scheduleBuyback(stateStore, available - scheduled, nowMs);
+  } else if (scheduled > available) {
+    trimSlices(stateStore, openSlices, scheduled - available);
+  }
+}
+
+export function getBuybackAllowance(stateStore: StateStore, nowMs: number): BuybackAllowance {
+  const state = stateStore.getState();
+  const dueWei = stateStore
+    .listOpenBuybackSlices()
+    .filter((slice) => slice.dueAtMs <= nowMs)
+    .reduce((total, slice) => total + remainingWei(slice), 0n);
+
+  let hourlyRemainingWei: bigint | null = null;
+  if (BUYBACK_MAX_WEI_PER_HOUR !== null) {
+    const spentWei = stateStore.sumOutflowsSince(BUYBACK_OUTFLOW_REASON, nowMs - ONE_HOUR_MS);
+    hourlyRemainingWei =
+      BUYBACK_MAX_WEI_PER_HOUR > spentWei ? BUYBACK_MAX_WEI_PER_HOUR - spentWei : 0n;
+  }
+
+  let amountWei = dueWei < state.salePoolWei ? dueWei : state.salePoolWei;
+  if (hourlyRemainingWei !== null && hourlyRemainingWei < amountWei) {
+    amountWei = hourlyRemainingWei;
+  }
+  return { amountWei, dueWei, hourlyRemainingWei };
+}
+
+/**
+ * Charges a confirmed swap to the open slices, earliest due first. Returns the changed slices
+ * for the caller to store with the swap's confirmation.
+ */
+export function chargeBuybackSlices(stateStore: StateStore, amountWei: bigint): BuybackSlice[] {
+  const openSlices = stateStore.listOpenBuybackSlices();
+  let remaining = amountWei;
+  const charged = openSlices.map((slice) => {
+    const charge = remainingWei(slice) < remaining ? remainingWei(slice) : remaining;
+    remaining -= charge;
+    return charge > 0n ? { ...slice, spentWei: slice.spentWei + charge } : slice;
+  });
+  return changedSlices(openSlices, foldDust(charged));
+}
+
+function scheduleBuyback(stateStore: StateStore, totalWei: bigint, nowMs: number): void {
+  let sliceCount = BigInt(BUYBACK_TWAP_WINDOW_MS > 0 ? BUYBACK_TWAP_SLICES : 1);
+  if (BUYBACK_MIN_CHUNK_WEI > 0n && totalWei / BUYBACK_MIN_CHUNK_WEI < sliceCount) {
+    sliceCount = totalWei / BUYBACK_MIN_CHUNK_WEI > 0n ? totalWei / BUYBACK_MIN_CHUNK_WEI : 1n;
+  }
+  if (totalWei < sliceCount) {
+    sliceCount = totalWei;
+  }
+
+  const count = Number(sliceCount);
+  const intervalMs = BUYBACK_TWAP_WINDOW_MS / count;
+  const windowEndMs = nowMs + BUYBACK_TWAP_WINDOW_MS;
+  const sliceWei = totalWei / sliceCount;
+  const slices = Array.from({ length: count }, (_, index) => {
+    const jitterMs = BUYBACK_TWAP_WINDOW_MS > 0 ? Math.random() * BUYBACK_TWAP_JITTER_MS : 0;
+    return {
+      dueAtMs: Math.min(Math.floor(nowMs + index * intervalMs + jitterMs), windowEndMs),
+      // Rounding dust goes to the last slice so the slices add up to the full amount.
+      amountWei: index === count - 1 ? totalWei - sliceWei * (sliceCount - 1n) : sliceWei
+    };
+  });
+
+  const scheduleId = stateStore.createBuybackSchedule(totalWei, slices, nowMs);
+  logger.info(
+    {
+      scheduleId,
+      totalWei: totalWei.toString(),
+      slices: count,
+      windowEndMs
+    },
+    "Scheduled buyback of new pool balance"
+  );
+}
+
+function trimSlices(
+  stateStore: StateStore,
+  openSlices: readonly BuybackSlice[],
+  excessWei: bigint
+): void {
+  let remaining = excessWei;
+  const trimmed = [...openSlices]
+    .reverse()
+    .map((slice) => {
+      const cut = remainingWei(slice) < remaining ? remainingWei(slice) : remaining;
+      remaining -= cut;
+      return cut > 0n ? { ...slice, amountWei: slice.amountWei - cut } : slice;
+    })
+    .reverse();
+  stateStore.updateBuybackSlices(changedSlices(openSlices, foldDust(trimmed)));
+  logger.info(
+    { trimmedWei: excessWei.toString() },
+    "Trimmed buyback schedule to the remaining pool balance"
+  );
+}
+
+/**
+ * Moves remainders below `BUYBACK_MIN_CHUNK_WEI` into the next open slice, since a swap that
+ * small is never quoted. The last slice keeps its remainder until more balance is folded in.
+ */
+function foldDust(slices: readonly BuybackSlice[]): BuybackSlice[] {
+  const folded = [...slices];
+  for (let index = 0; index < folded.length - 1; index += 1) {
+    const slice = folded[index]!;
+    const dust = remainingWei(slice);
+    if (dust > 0n && dust < BUYBACK_MIN_CHUNK_WEI) {
+      const next = folded[index + 1]!;
+      folded[index] = { ...slice, amountWei: slice.spentWei };
+      folded[index + 1] = { ...next, amountWei: next.amountWei + dust };
+    }
+  }
+  return folded;
+}
+
+function changedSlices(
+  before: readonly BuybackSlice[],
+  after: readonly BuybackSlice[]
+): BuybackSlice[] {
+  return after.filter(
+    (slice, index) =>
+      slice.amountWei !== before[index]!.amountWei || slice.spentWei !== before[index]!.spentWei
+  );
+}
+
+function remainingWei(slice: BuybackSlice): bigint {
+  return slice.amountWei - slice.spentWei;
+}
@@ -0,0 +1,204 @@
+import { encodeFunctionData } from "viem";
+import { BUYBACK_SLIPPAGE_BPS, BUYBACK_V2_FEE_BPS, TOKEN_TRANSFER_TAX_BPS } from "../config.js";
+import { publicClient } from "../treasuryClient.js";
+import type { Address } from "../types.js";
+import { logger } from "../utils/logger.js";
+import type { SwapBackend } from "./buyback.js";
+import {
+  applyBps,
+  priceImpactBps,
+  shrinkToImpactLimit,
+  type BuybackQuote
+} from "./buybackQuote.js";
+
+const BPS_DENOMINATOR = 10_000n;
+const ZERO_ADDRESS: Address = "0x0000000000000000000000000000000000000000";
+
+const SWAP_FUNCTION_ABI = {
+  type: "function",
+  name: "swapExactETHForTokensSupportingFeeOnTransferTokens",
+  inputs: [
+    { name: "amountOutMin", type: "uint256" },
+    { name: "path", type: "address[]" },
+    { name: "to", type: "address" },
+    { name: "deadline", type: "uint256" }
+  ]
+} as const;
+
+const V2_ROUTER_ABI = [
+  {
+    type: "function",
+    name: "factory",
+    stateMutability: "view",
+    inputs: [],
+    outputs: [{ name: "", type: "address" }]
+  },
+  {
+    type: "function",
+    name: "getAmountsOut",
+    stateMutability: "view",
+    inputs: [
+      { name: "amountIn", type: "uint256" },
+      { name: "path", type: "address[]" }
+    ],
+    outputs: [{ name: "amounts", type: "uint256[]" }]
+  }
+] as const;
+
+const V2_FACTORY_ABI = [
+  {
+    type: "function",
+    name: "getPair",
+    stateMutability: "view",
+    inputs: [
+      { name: "tokenA", type: "address" },
+      { name: "tokenB", type: "address" }
+    ],
+    outputs: [{ name: "pair", type: "address" }]
+  }
+] as const;
+
+const V2_PAIR_ABI = [
+  {
+    type: "function",
+    name: "token0",
+    stateMutability: "view",
+    inputs: [],
+    outputs: [{ name: "", type: "address" }]
+  },
+  {
+    type: "function",
+    name: "getReserves",
+    stateMutability: "view",
+    inputs: [],
+    outputs: [
+      { name: "reserve0", type: "uint112" },
+      { name: "reserve1", type: "uint112" },
+      { name: "blockTimestampLast", type: "uint32" }
+    ]
+  }
+] as const;
+
+interface PairReserves {
+  readonly reserveIn: bigint;
+  readonly reserveOut: bigint;
+}
+
+/**
+ * Swaps through a Uniswap V2 style router with
+ * `swapExactETHForTokensSupportingFeeOnTransferTokens` along `path` (WETH first, token last).
+ * Price impact is measured against the pairs' mid prices, pool fees included.
+ */
+export function createV2SwapBackend(router: Address, path: readonly Address[]): SwapBackend {
+  return {
+    kind: "v2",
+    router,
+    route: path.join(" -> "),
+    async planChunk(amountInWei) {
+      const reserves = await readPathReserves(router, path);
+      return shrinkToImpactLimit(amountInWei, (amount) =>
+        quoteV2(router, path, amount, reserves)
+      );
+    },
+    encodeSwap(quote, recipient, deadline) {
+      return encodeFunctionData({
+        abi: [SWAP_FUNCTION_ABI],
+        functionName: "swapExactETHForTokensSupportingFeeOnTransferTokens",
+        args: [quote.minAmountOut, [...path], recipient, deadline]
+      });
+    }
+  };
+}
+
+async function quoteV2(
+  router: Address,
+  path: readonly Address[],
+  amountInWei: bigint,
+  reserves: readonly PairReserves[]
+): Promise<BuybackQuote> {
+  let quotedOut: bigint;
+  let source: BuybackQuote["source"] = "router";
+  try {
+    const amounts = await publicClient.readContract({
+      address: router,
+      abi: V2_ROUTER_ABI,
+      functionName: "getAmountsOut",
+      args: [amountInWei, [...path]]
+    });
+    quotedOut = amounts[amounts.length - 1] ?? 0n;
+  } catch (error) {
+    logger.warn(
+      { router, err: error instanceof Error ? error.message : String(error) },
+      "Router getAmountsOut failed; quoting buyback from pair reserves"
+    );
+    quotedOut = reserves.reduce((amount, pair) => amountOutFromReserves(amount, pair), amountInWei);
+    source = "reserves";
+  }
+
+  const midOut = reserves.reduce(
+    (amount, pair) => (amount * pair.reserveOut) / pair.reserveIn,
+    amountInWei
+  );
+  const expectedOut = applyBps(quotedOut, TOKEN_TRANSFER_TAX_BPS);
+  return {
+    amountInWei,
+    quotedOut,
+    expectedOut,
+    minAmountOut: applyBps(expectedOut, BUYBACK_SLIPPAGE_BPS),
+    priceImpactBps: priceImpactBps(midOut, quotedOut),
+    source
+  };
+}
+
+/** Constant-product output after the pool fee, as in `UniswapV2Library.getAmountOut`. */
+function amountOutFromReserves(amountIn: bigint, reserves: PairReserves): bigint {
+  const amountInWithFee = amountIn * (BPS_DENOMINATOR - BigInt(BUYBACK_V2_FEE_BPS));
+  return (
+    (amountInWithFee * reserves.reserveOut) /
+    (reserves.reserveIn * BPS_DENOMINATOR + amountInWithFee)
+  );
+}
+
+async function readPathReserves(
+  router: Address,
+  path: readonly Address[]
+): Promise<PairReserves[]> {
+  const factory = await publicClient.readContract({
+    address: router,
+    abi: V2_ROUTER_ABI,
+    functionName: "factory"
+  });
+  const reserves: PairReserves[] = [];
+  for (let index = 1; index < path.length; index += 1) {
+    reserves.push(await readPairReserves(factory, path[index - 1], path[index]));
+  }
+  return reserves;
+}
+
+async function readPairReserves(
+  factory: Address,
+  tokenIn: Address,
+  tokenOut: Address
+): Promise<PairReserves> {
+  const pair = await publicClient.readContract({
+    address: factory,
+    abi: V2_FACTORY_ABI,
+    functionName: "getPair",
+    args: [tokenIn, tokenOut]
+  });
+  if (pair === ZERO_ADDRESS) {
+    throw new Error(`No V2 pair for ${tokenIn}/${tokenOut} on factory ${factory}`);
+  }
+
+  const [token0, [reserve0, reserve1]] = await Promise.all([
+    publicClient.readContract({ address: pair, abi: V2_PAIR_ABI, functionName: "token0" }),
+    publicClient.readContract({ address: pair, abi: V2_PAIR_ABI, functionName: "getReserves" })
+  ]);
+  const inIsToken0 = token0.toLowerCase() === tokenIn.toLowerCase();
+  const reserveIn = inIsToken0 ? reserve0 : reserve1;
+  const reserveOut = inIsToken0 ? reserve1 : reserve0;
+  if (reserveIn <= 0n || reserveOut <= 0n) {
+    throw new Error(`V2 pair ${pair} has no liquidity`);
+  }
+  return { reserveIn, reserveOut };
+}
@@ -0,0 +1,139 @@
+import { encodeAbiParameters, encodeFunctionData, encodePacked } from "viem";
+import { BUYBACK_SLIPPAGE_BPS, TOKEN_TRANSFER_TAX_BPS } from "../config.js";
+import { publicClient } from "../treasuryClient.js";
+import type { Address, Hex } from "../types.js";
+import type { SwapBackend } from "./buyback.js";
+import {
+  applyBps,
+  priceImpactBps,
+  shrinkToImpactLimit,
+  type BuybackQuote
+} from "./buybackQuote.js";
+
+/** The reference quote sells this fraction of the requested amount to approximate spot. */
+const REFERENCE_AMOUNT_DIVISOR = 1_000n;
+
+// Universal Router command bytes and its "the router itself" recipient sentinel.
+const COMMAND_V3_SWAP_EXACT_IN = "00";
+const COMMAND_WRAP_ETH = "0b";
+const ROUTER_AS_RECIPIENT: Address = "0x0000000000000000000000000000000000000002";
+
+const UNIVERSAL_ROUTER_ABI = [
+  {
+    type: "function",
+    name: "execute",
+    stateMutability: "payable",
+    inputs: [
+      { name: "commands", type: "bytes" },
+      { name: "inputs", type: "bytes[]" },
+      { name: "deadline", type: "uint256" }
+    ],
+    outputs: []
+  }
+] as const;
+
+const QUOTER_V2_ABI = [
+  {
+    type: "function",
+    name: "quoteExactInput",
+    stateMutability: "nonpayable",
+    inputs: [
+      { name: "path", type: "bytes" },
+      { name: "amountIn", type: "uint256" }
+    ],
+    outputs: [
+      { name: "amountOut", type: "uint256" },
+      { name: "sqrtPriceX96AfterList", type: "uint160[]" },
+      { name: "initializedTicksCrossedList", type: "uint32[]" },
+      { name: "gasEstimate", type: "uint256" }
+    ]
+  }
+] as const;
+
+export interface V3Hop {
+  readonly token: Address;
+  readonly fee: number;
+}
+
+/**
+ * Swaps through the Universal Router: `WRAP_ETH` into the router, then `V3_SWAP_EXACT_IN` along
+ * the encoded `weth -> hops` path to the recipient. Quotes come from a QuoterV2 and price impact
+ * is measured against a quote for a thousandth of the requested amount, so pool fees are not
+ * counted as impact.
+ */
+export function createV3SwapBackend(
+  router: Address,
+  quoter: Address,
+  weth: Address,
+  hops: readonly V3Hop[]
+): SwapBackend {
+  const path = encodeV3Path(weth, hops);
+  return {
+    kind: "v3",
+    router,
+    route: [weth, ...hops.map((hop) => `(${hop.fee}) ${hop.token}`)].join(" -> "),
+    async planChunk(amountInWei) {
+      const referenceIn =
+        amountInWei / REFERENCE_AMOUNT_DIVISOR > 0n
+          ? amountInWei / REFERENCE_AMOUNT_DIVISOR
+          : amountInWei;
+      const referenceOut = await quoteExactInput(quoter, path, referenceIn);
+      return shrinkToImpactLimit(amountInWei, async (amount) => {
+        const quotedOut = await quoteExactInput(quoter, path, amount);
+        const expectedOut = applyBps(quotedOut, TOKEN_TRANSFER_TAX_BPS);
+        return {
+          amountInWei: amount,
+          quotedOut,
+          expectedOut,
+          minAmountOut: applyBps(quotedOut, BUYBACK_SLIPPAGE_BPS),
+          priceImpactBps: priceImpactBps((referenceOut * amount) / referenceIn, quotedOut),
+          source: "quoter"
+        } satisfies BuybackQuote;
+      });
+    },
+    encodeSwap(quote, recipient, deadline) {
+      const inputs = [
+        encodeAbiParameters(
+          [{ type: "address" }, { type: "uint256" }],
+          [ROUTER_AS_RECIPIENT, quote.amountInWei]
+        ),
+        encodeAbiParameters(
+          [
+            { type: "address" },
+            { type: "uint256" },
+            { type: "uint256" },
+            { type: "bytes" },
+            { type: "bool" }
+          ],
+          [recipient, quote.amountInWei, quote.minAmountOut, path, false]
+        )
+      ];
+      return encodeFunctionData({
+        abi: UNIVERSAL_ROUTER_ABI,
+        functionName: "execute",
+        args: [`0x${COMMAND_WRAP_ETH}${COMMAND_V3_SWAP_EXACT_IN}`, inputs, deadline]
+      });
+    }
+  };
+}
+
+async function quoteExactInput(quoter: Address, path: Hex, amountIn: bigint): Promise<bigint> {
+  const { result } = await publicClient.simulateContract({
+    address: quoter,
+    abi: QUOTER_V2_ABI,
+    functionName: "quoteExactInput",
+    args: [path, amountIn]
+  });
+  return result[0];
+}
+
+/** Packs `token (fee token)*` as the V3 routers expect. */
+function encodeV3Path(tokenIn: Address, hops: readonly V3Hop[]): Hex {
+  const types: ("address" | "uint24")[] = ["address"];
+  const values: (Address | number)[] = [tokenIn];
+  for (const hop of hops) {
+    types.push("uint24", "address");
+    values.push(hop.fee, hop.token);
+  }
+  return encodePacked(types, values);
+}
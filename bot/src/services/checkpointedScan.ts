@@ -0,0 +1,157 @@
+import { TAX_CONFIRMATIONS } from "../config.js";
+import { publicClient } from "../treasuryClient.js";
+import type { Hex, ScanCheckpoint } from "../types.js";
+import { scanLogsAdaptively } from "../utils/logScanner.js";
+import { logger } from "../utils/logger.js";
+
+const MAX_SCAN_CHECKPOINTS = 128;
+
+export interface ScanCursor {
+  readonly lastBlock: bigint;
+  readonly checkpoints: readonly ScanCheckpoint[];
+}
+
+export interface CheckpointedScanOptions<T> {
+  readonly label: string;
+  readonly cursor: ScanCursor;
+  readonly fetchRange: (fromBlock: bigint, toBlock: bigint) => Promise<T[]>;
+  /** Persists the starting cursor for a scanner that has never run. */
+  readonly initialize: (cursor: ScanCursor) => Promise<void>;
+  /**
+   * Removes everything credited above `afterBlock` and persists `cursor` in the same
+   * transaction.
+   */
+  readonly rollback: (afterBlock: bigint, cursor: ScanCursor) => void;
+  /**
+   * Credits the items of one scanned range and persists `cursor` in the same transaction.
+   * Called once per range, in block order.
+   */
+  readonly commit: (items: T[], cursor: ScanCursor) => Promise<void> | void;
+  /** First block to scan for a new scanner; defaults to the confirmed head. */
+  readonly startBlock?: bigint | null;
+  /** Upper bound for this pass, for sources that depend on other scanners being caught up. */
+  readonly maxBlock?: bigint | null;
+}
+
+/**
+ * Scans a source up to the confirmed head (`TAX_CONFIRMATIONS` behind latest), committing each
+ * fetched range with its own checkpoint. Before each pass the stored checkpoints are compared
+ * with the canonical chain, and anything credited from blocks that were reorganised away is
+ * rolled back and rescanned.
+ */
+export async function runCheckpointedScan<T>(options: CheckpointedScanOptions<T>): Promise<void> {
+  const latestBlock = await publicClient.getBlockNumber();
+  const confirmedBlock = latestBlock > TAX_CONFIRMATIONS ? latestBlock - TAX_CONFIRMATIONS : 0n;
+  const safeBlock =
+    options.maxBlock !== undefined && options.maxBlock !== null && options.maxBlock < confirmedBlock
+      ? options.maxBlock
+      : confirmedBlock;
+
+  if (options.cursor.lastBlock === 0n) {
+    const initialBlock =
+      options.startBlock !== undefined && options.startBlock !== null && options.startBlock > 0n
+        ? options.startBlock - 1n
+        : safeBlock;
+    await options.initialize({
+      lastBlock: initialBlock,
+      checkpoints: [
+        {
+          fromBlock: initialBlock,
+          blockNumber: initialBlock,
+          blockHash: await getBlockHash(initialBlock)
+        }
+      ]
+    });
+    return;
+  }
+
+  const cursor = await rollBackOrphanedBlocks(options);
+
+  if (cursor.lastBlock >= safeBlock) {
+    return;
+  }
+
+  // Each range is committed as soon as it is fetched so that a restart or a failing range
+  // resumes from the last committed block instead of the start of the catch-up.
+  let committed = cursor;
+  const rangeEndHashes = new Map<bigint, Hex>();
+  await scanLogsAdaptively({
+    label: options.label,
+    fromBlock: cursor.lastBlock + 1n,
+    toBlock: safeBlock,
+    fetchRange: async (fromBlock, toBlock) => {
+      rangeEndHashes.set(toBlock, await getBlockHash(toBlock));
+      return options.fetchRange(fromBlock, toBlock);
+    },
+    onRange: async (items, fromBlock, toBlock) => {
+      const blockHash = rangeEndHashes.get(toBlock);
+      rangeEndHashes.clear();
+
+      // If the range end moved to another fork while we were fetching, the logs may belong to
+      // either branch; drop this range and rescan it on the next tick.
+      if (blockHash === undefined || (await getBlockHash(toBlock)) !== blockHash) {
+        logger.warn(
+          { label: options.label, blockNumber: toBlock.toString() },
+          "Confirmed block changed during scan; discarding this range"
+        );
+        return false;
+      }
+
+      const checkpoint: ScanCheckpoint = { fromBlock, blockNumber: toBlock, blockHash };
+      committed = {
+        lastBlock: toBlock,
+        checkpoints: [...committed.checkpoints, checkpoint].slice(-MAX_SCAN_CHECKPOINTS)
+      };
+      await options.commit(items, committed);
+      return true;
+    }
+  });
+}
+
+/**
+ * Walks the stored checkpoints from newest to oldest until one still matches the canonical
+ * chain and rolls the cursor back to just before the oldest orphaned range.
+ */
+async function rollBackOrphanedBlocks<T>(options: CheckpointedScanOptions<T>): Promise<ScanCursor> {
+  const orphaned: ScanCheckpoint[] = [];
+  const checkpoints = [...options.cursor.checkpoints];
+
+  while (checkpoints.length > 0) {
+    const checkpoint = checkpoints[checkpoints.length - 1]!;
+    const canonicalHash = await getBlockHash(checkpoint.blockNumber);
+    if (canonicalHash === checkpoint.blockHash) {
+      break;
+    }
+    orphaned.push(checkpoint);
+    checkpoints.pop();
+  }
+
+  if (orphaned.length === 0) {
+    return options.cursor;
+  }
+
+  const oldestOrphaned = orphaned[orphaned.length - 1]!;
+  const rollbackBlock = oldestOrphaned.fromBlock > 0n ? oldestOrphaned.fromBlock - 1n : 0n;
+  const cursor: ScanCursor = { lastBlock: rollbackBlock, checkpoints };
+
+  options.rollback(rollbackBlock, cursor);
+
+  logger.warn(
+    {
+      label: options.label,
+      orphanedCheckpoints: orphaned.length,
+      rescanFromBlock: (rollbackBlock + 1n).toString()
+    },
+    "Detected reorg in scanned history; rolled back orphaned blocks"
+  );
+
+  return cursor;
+}
+
+export async function getBlockHash(blockNumber: bigint): Promise<Hex> {
+  const block = await publicClient.getBlock({ blockNumber });
+  if (!block.hash) {
+    throw new Error(`Block ${blockNumber.toString()} has no hash`);
+  }
+  return block.hash;
+}
@@ -0,0 +1,164 @@
+import type { OrderComponents } from "@opensea/seaport-js/lib/types.js";
+
+import { getSeaport } from "../marketplaces/openseaClients.js";
+import { fetchListingFromOpenSea } from "../marketplaces/openseaOrderbook.js";
+import { StateStore } from "../state/stateStore.js";
+import { executeSeaport, waitForReceipt } from "../treasuryClient.js";
+import type { ActiveListingState, Address, Hex, SignedListingOrder } from "../types.js";
+import { logger } from "../utils/logger.js";
+import { reconcileListings } from "./listingMonitor.js";
+import { returnListingToInventory } from "./unlistedInventory.js";
+
+export interface CancellationResult {
+  readonly txHash: Hex;
+  readonly cancelledOrderHashes: readonly string[];
+}
+
+/**
+ * Cancels one listing through Seaport `cancel`, sent by the treasury via `executeSeaport`.
+ * Fills that landed before the cancellation are credited first; whatever is left of the
+ * listing is then removed from state and returned to unlisted inventory.
+ */
+export async function cancelListing(
+  stateStore: StateStore,
+  orderHash: string
+): Promise<CancellationResult> {
+  const listing = findListing(stateStore, orderHash);
+  const components = await resolveOrderComponents(stateStore, listing);
+  const txHash = await submitCancel(listing.protocolAddress, listing.orderHash, components);
+
+  const cancelled = await retireListings(
+    stateStore,
+    (candidate) => candidate.orderHash.toLowerCase() === listing.orderHash.toLowerCase(),
+    `cancelled in ${txHash}`
+  );
+  return { txHash, cancelledOrderHashes: cancelled };
+}
+
+/**
+ * Cancels a stored order that is no longer tracked as a listing, such as the order a renewal
+ * replaced. State is left as it is: fills that land before the cancellation are matched to the
+ * listing that replaced the order.
+ */
+export async function cancelStoredOrder(order: SignedListingOrder): Promise<Hex> {
+  return submitCancel(order.protocolAddress, order.orderHash, order.components);
+}
+
+/**
+ * Invalidates every open treasury order on one Seaport deployment by incrementing the
+ * treasury's counter there, then retires all tracked listings on that deployment.
+ */
+export async function cancelAllListings(
+  stateStore: StateStore,
+  protocolAddress: Address
+): Promise<CancellationResult> {
+  const seaport = getSeaport(protocolAddress);
+  const calldata = seaport.contract.interface.encodeFunctionData("incrementCounter") as Hex;
+  const txHash = await executeSeaport({
+    router: protocolAddress,
+    valueWei: 0n,
+    calldata,
+    callValueWei: 0n
+  });
+  logger.info({ protocolAddress, txHash }, "Submitted Seaport counter increment");
+  await waitForReceipt(txHash);
+
+  const protocolLower = protocolAddress.toLowerCase();
+  const cancelled = await retireListings(
+    stateStore,
+    (candidate) => candidate.protocolAddress.toLowerCase() === protocolLower,
+    `counter incremented in ${txHash}`
+  );
+  return { txHash, cancelledOrderHashes: cancelled };
+}
+
+async function submitCancel(
+  protocolAddress: Address,
+  orderHash: string,
+  components: OrderComponents
+): Promise<Hex> {
+  const seaport = getSeaport(protocolAddress);
+  const rebuiltHash = seaport.getOrderHash(components);
+  if (rebuiltHash.toLowerCase() !== orderHash.toLowerCase()) {
+    throw new Error(
+      `Rebuilt order components hash to ${rebuiltHash}, expected ${orderHash}; refusing to cancel`
+    );
+  }
+
+  const calldata = seaport.contract.interface.encodeFunctionData("cancel", [[components]]) as Hex;
+  const txHash = await executeSeaport({
+    router: protocolAddress,
+    valueWei: 0n,
+    calldata,
+    callValueWei: 0n
+  });
+  logger.info({ orderHash, txHash }, "Submitted Seaport order cancellation");
+  await waitForReceipt(txHash);
+  return txHash;
+}
+
+async function resolveOrderComponents(
+  stateStore: StateStore,
+  listing: ActiveListingState
+): Promise<OrderComponents> {
+  const stored = stateStore.getListingOrder(listing.orderHash);
+  if (stored) {
+    return stored.components;
+  }
+
+  // Listings created before signed orders were stored can only be recovered from OpenSea.
+  if (!listing.postedToOpenSea) {
+    throw new Error(
+      `Listing ${listing.orderHash} has no stored order and was never posted to OpenSea, so its order components cannot be rebuilt; cancel it by incrementing the counter instead`
+    );
+  }
+  const order = await fetchListingFromOpenSea(listing.orderHash, listing.protocolAddress);
+  return order.parameters;
+}
+
+async function retireListings(
+  stateStore: StateStore,
+  matches: (listing: ActiveListingState) => boolean,
+  reason: string
+): Promise<string[]> {
+  // The orders can no longer be filled once the cancellation is mined, so catching up on
+  // fills now settles anything that sold before it.
+  await reconcileListings(stateStore);
+
+  const state = stateStore.getState();
+  const retired = state.activeListings.filter(matches);
+  if (retired.length === 0) {
+    return [];
+  }
+
+  const sinceMs = Date.now();
+  state.activeListings = state.activeListings.filter((listing) => !matches(listing));
+  for (const listing of retired) {
+    returnListingToInventory(state, listing, reason, sinceMs);
+  }
+  await stateStore.save();
+
+  for (const listing of retired) {
+    logger.info(
+      {
+        orderHash: listing.orderHash,
+        collection: listing.collection,
+        tokenId: listing.tokenId,
+        reason
+      },
+      "Removed cancelled listing; token returned to unlisted inventory"
+    );
+  }
+  return retired.map((listing) => listing.orderHash);
+}
+
+function findListing(stateStore: StateStore, orderHash: string): ActiveListingState {
+  const orderHashLower = orderHash.toLowerCase();
+  const listing = stateStore
+    .getState()
+    .activeListings.find((candidate) => candidate.orderHash.toLowerCase() === orderHashLower);
+  if (!listing) {
+    throw new Error(`No active listing with order hash ${orderHash}`);
+  }
+  return listing;
+}
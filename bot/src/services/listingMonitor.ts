@@ -1,8 +1,13 @@
 import { publicClient } from "../treasuryClient.js";
 import { StateStore } from "../state/stateStore.js";
 import { logger } from "../utils/logger.js";
-import { TREASURY_ADDRESS, MAX_LISTING_CHECKS_PER_TICK } from "../config.js";
-import type { ActiveListingState } from "../types.js";
+import { MAX_LISTING_CHECKS_PER_TICK, TREASURY_ADDRESS } from "../config.js";
+import { proceedsAtTime } from "../marketplaces/listingPricing.js";
+import { fetchOrderFulfillments, type SeaportFillEvent } from "../marketplaces/seaportEvents.js";
+import type { ActiveListingState, Address, BotState, ListingFillRecord } from "../types.js";
+import { runCheckpointedScan, type ScanCursor } from "./checkpointedScan.js";
+import { debitPool } from "./taxRouting.js";
+import { addUnlistedInventory, removeUnlistedInventory } from "./unlistedInventory.js";
 
 const ERC721_OWNER_OF_ABI = [
   {
@@ -27,19 +32,308 @@ const ERC1155_BALANCE_OF_ABI = [
   }
 ] as const;
 
+const NATIVE_ITEM_TYPE = 0;
+
+/**
+ * Credits sale proceeds from Seaport `OrderFulfilled` logs matched on our stored order hashes,
+ * then checks ownership of the remaining listings. A token that left the treasury without a
+ * matching fill is recorded as an anomaly rather than as revenue. Unlisted inventory the
+ * treasury no longer holds is dropped.
+ */
 export async function reconcileListings(stateStore: StateStore): Promise<bigint> {
   const state = stateStore.getState();
-  if (state.activeListings.length === 0) {
+  const latestBlock = await publicClient.getBlockNumber();
+
+  const proceedsCaptured = await captureListingFills(stateStore);
+  if (state.activeListings.length > 0) {
+    await flagUnexplainedTransfers(stateStore);
+  }
+
+  await pruneDepartedInventory(stateStore, latestBlock);
+  return proceedsCaptured;
+}
+
+/**
+ * Scans fills up to the confirmed head with the same checkpoints and reorg rollback as tax
+ * ingestion, so `lastFillBlock` only ever covers confirmed blocks.
+ */
+async function captureListingFills(stateStore: StateStore): Promise<bigint> {
+  const state = stateStore.getState();
+  const protocolAddresses = uniqueProtocolAddresses(state.activeListings);
+  let proceedsCaptured = 0n;
+
+  await runCheckpointedScan<SeaportFillEvent>({
+    label: "seaport-fills",
+    cursor: { lastBlock: state.lastFillBlock, checkpoints: state.fillCheckpoints },
+    fetchRange: async (fromBlock, toBlock) =>
+      protocolAddresses.length === 0
+        ? []
+        : fetchOrderFulfillments(protocolAddresses, TREASURY_ADDRESS, fromBlock, toBlock),
+    initialize: async (cursor) => {
+      state.lastFillBlock = cursor.lastBlock;
+      state.fillCheckpoints = [...cursor.checkpoints];
+      await stateStore.save();
+    },
+    rollback: (afterBlock, cursor) => rollBackListingFills(stateStore, afterBlock, cursor),
+    commit: async (fills, cursor) => {
+      for (const fill of fills) {
+        proceedsCaptured += await applyListingFill(stateStore, fill);
+      }
+      state.lastFillBlock = cursor.lastBlock;
+      state.fillCheckpoints = [...cursor.checkpoints];
+      await stateStore.save();
+    }
+  });
+
+  return proceedsCaptured;
+}
+
+/**
+ * Undoes fills recorded from blocks that were reorganised away: their proceeds leave the sale
+ * pool, and the tokens go back to the listing they came from or, if that listing is gone, to
+ * unlisted inventory. A fill that is still canonical is credited again by the rescan only if
+ * its listing is still active, so the rollback is logged for an operator to review.
+ */
+function rollBackListingFills(
+  stateStore: StateStore,
+  afterBlock: bigint,
+  cursor: ScanCursor
+): void {
+  const state = stateStore.getState();
+  let shortfallWei = 0n;
+
+  const removed = stateStore.rollbackListingFillsAfter(afterBlock, (fills) => {
+    for (const fill of fills) {
+      shortfallWei += debitPool(state, "buyback", fill.proceedsWei);
+      restoreOrphanedFill(stateStore, fill);
+    }
+    state.lastFillBlock = cursor.lastBlock;
+    state.fillCheckpoints = [...cursor.checkpoints];
+  });
+
+  if (shortfallWei > 0n) {
+    logger.error(
+      { shortfallWei: shortfallWei.toString() },
+      "Sale proceeds credited from orphaned blocks were already spent; sale pool clamped to zero"
+    );
+  }
+  if (removed.length > 0) {
+    logger.warn(
+      {
+        orphanedFills: removed.map((fill) => ({
+          orderHash: fill.orderHash,
+          txHash: fill.txHash,
+          collection: fill.collection,
+          tokenId: fill.tokenId,
+          proceedsWei: fill.proceedsWei.toString()
+        }))
+      },
+      "Rolled back orphaned listing fills"
+    );
+  }
+}
+
+function restoreOrphanedFill(stateStore: StateStore, fill: ListingFillRecord): void {
+  const state = stateStore.getState();
+  const collectionLower = fill.collection.toLowerCase();
+  const listing = state.activeListings.find(
+    (candidate) =>
+      candidate.collection.toLowerCase() === collectionLower && candidate.tokenId === fill.tokenId
+  );
+
+  if (listing) {
+    const filledQuantity = listing.filledQuantity - fill.quantity;
+    state.activeListings = state.activeListings.map((candidate) =>
+      candidate === listing
+        ? { ...candidate, filledQuantity: filledQuantity > 0n ? filledQuantity : 0n }
+        : candidate
+    );
+    return;
+  }
+
+  const existing = state.unlistedInventory.find(
+    (item) => item.collection.toLowerCase() === collectionLower && item.tokenId === fill.tokenId
+  );
+  const offerItemType = stateStore.getListingOrder(fill.orderHash)?.components.offer[0]?.itemType;
+  addUnlistedInventory(state, {
+    collection: fill.collection,
+    tokenId: fill.tokenId,
+    tokenStandard: Number(offerItemType) === 3 ? "erc1155" : "erc721",
+    quantity: (existing?.quantity ?? 0n) + (fill.quantity > 0n ? fill.quantity : 1n),
+    reason: "sale fill was reorganised out of the chain",
+    sinceMs: Date.now()
+  });
+}
+
+async function applyListingFill(stateStore: StateStore, fill: SeaportFillEvent): Promise<bigint> {
+  const state = stateStore.getState();
+  const listing = findListingForFill(stateStore, fill.orderHash);
+
+  if (!listing) {
+    if (releaseSoldInventory(state, fill)) {
+      logger.warn(
+        { orderHash: fill.orderHash, txHash: fill.txHash },
+        "Seaport fill sold a token held as unlisted inventory; removed it from inventory"
+      );
+    } else {
+      logger.debug(
+        { orderHash: fill.orderHash, txHash: fill.txHash },
+        "Ignoring Seaport fill for an order that is not tracked"
+      );
+    }
+    return 0n;
+  }
+
+  if (stateStore.hasListingFill(fill.txHash, fill.logIndex)) {
     return 0n;
   }
 
+  const treasuryLower = TREASURY_ADDRESS.toLowerCase();
+  let proceedsWei = 0n;
+  for (const item of fill.consideration) {
+    if (item.recipient.toLowerCase() !== treasuryLower) {
+      continue;
+    }
+    if (item.itemType !== NATIVE_ITEM_TYPE) {
+      logger.warn(
+        {
+          orderHash: listing.orderHash,
+          txHash: fill.txHash,
+          token: item.token,
+          amount: item.amount.toString()
+        },
+        "Fill paid the treasury in a non-native token; amount is not credited to the sale pool"
+      );
+      continue;
+    }
+    proceedsWei += item.amount;
+  }
+
+  const collectionLower = listing.collection.toLowerCase();
+  const tokenId = BigInt(listing.tokenId);
+  const quantity = fill.offer
+    .filter((item) => item.token.toLowerCase() === collectionLower && item.identifier === tokenId)
+    .reduce((total, item) => total + item.amount, 0n);
+
+  const filledQuantity = listing.filledQuantity + quantity;
+  const fullyFilled = filledQuantity >= listing.listedQuantity;
+  const expectedProceedsWei = await expectedProceedsAtFill(stateStore, listing, fill);
+
+  state.activeListings = fullyFilled
+    ? state.activeListings.filter((candidate) => candidate !== listing)
+    : state.activeListings.map((candidate) =>
+        candidate === listing ? { ...candidate, filledQuantity, expectedProceedsWei } : candidate
+      );
+  state.salePoolWei += proceedsWei;
+
+  stateStore.recordListingFill({
+    orderHash: fill.orderHash,
+    txHash: fill.txHash,
+    logIndex: fill.logIndex,
+    blockNumber: fill.blockNumber,
+    taker: fill.recipient,
+    collection: listing.collection,
+    tokenId: listing.tokenId,
+    quantity,
+    proceedsWei,
+    expectedProceedsWei
+  });
+
+  logger.info(
+    {
+      orderHash: fill.orderHash,
+      listingOrderHash: listing.orderHash,
+      collection: listing.collection,
+      tokenId: listing.tokenId,
+      amountWei: proceedsWei.toString(),
+      expectedProceedsWei: expectedProceedsWei.toString(),
+      taker: fill.recipient,
+      txHash: fill.txHash,
+      blockNumber: fill.blockNumber.toString(),
+      tokenStandard: listing.tokenStandard,
+      filledQuantity: filledQuantity.toString(),
+      listedQuantity: listing.listedQuantity.toString()
+    },
+    fullyFilled ? "Detected NFT sale" : "Detected partial NFT sale"
+  );
+
+  return proceedsWei;
+}
+
+/**
+ * Prices the filled order at its block time, so a Dutch auction is compared against what it
+ * was asking when it sold rather than its opening price. Falls back to the listing's stored
+ * expectation when the signed order is not available.
+ */
+async function expectedProceedsAtFill(
+  stateStore: StateStore,
+  listing: ActiveListingState,
+  fill: SeaportFillEvent
+): Promise<bigint> {
+  const order = stateStore.getListingOrder(fill.orderHash);
+  if (!order) {
+    return listing.expectedProceedsWei;
+  }
+
+  const decays = order.components.consideration.some(
+    (item) => BigInt(item.startAmount) !== BigInt(item.endAmount)
+  );
+  const timestamp = decays
+    ? (await publicClient.getBlock({ blockNumber: fill.blockNumber })).timestamp
+    : BigInt(order.components.startTime);
+  return proceedsAtTime(order.components, TREASURY_ADDRESS, timestamp);
+}
+
+/**
+ * Matches a fill to the listing it settles. A renewed listing is tracked under its newest
+ * order hash, but the order it replaced stays fillable until its cancellation lands (or it
+ * expires), so fills of a stored superseded order are attributed to the active listing for the
+ * same token.
+ */
+function findListingForFill(
+  stateStore: StateStore,
+  orderHash: string
+): ActiveListingState | undefined {
+  const listings = stateStore.getState().activeListings;
+  const orderHashLower = orderHash.toLowerCase();
+  const direct = listings.find((candidate) => candidate.orderHash.toLowerCase() === orderHashLower);
+  if (direct) {
+    return direct;
+  }
+
+  const stored = stateStore.getListingOrder(orderHash);
+  const offer = stored?.components.offer[0];
+  if (!stored || !offer) {
+    return undefined;
+  }
+  const protocolLower = stored.protocolAddress.toLowerCase();
+  const tokenLower = offer.token.toLowerCase();
+  const tokenId = offer.identifierOrCriteria.toString();
+  return listings.find(
+    (candidate) =>
+      candidate.protocolAddress.toLowerCase() === protocolLower &&
+      candidate.collection.toLowerCase() === tokenLower &&
+      candidate.tokenId === tokenId
+  );
+}
+
+/**
+ * Checks ownership at the block fills have been scanned through, so a sale still waiting for
+ * confirmations is not mistaken for a transfer. Listings created after that block are left for
+ * a later tick.
+ */
+async function flagUnexplainedTransfers(stateStore: StateStore): Promise<void> {
+  const state = stateStore.getState();
   const updatedListings: ActiveListingState[] = [];
+  const anomalies: { listing: ActiveListingState; reason: string }[] = [];
   let checked = 0;
-  let proceedsCaptured = 0n;
   const treasuryLower = TREASURY_ADDRESS.toLowerCase();
+  const checkedBlock = state.lastFillBlock;
+  const checkedBlockMs =
+    Number((await publicClient.getBlock({ blockNumber: checkedBlock })).timestamp) * 1000;
 
   for (const listing of state.activeListings) {
-    if (checked >= MAX_LISTING_CHECKS_PER_TICK) {
+    if (checked >= MAX_LISTING_CHECKS_PER_TICK || listing.listedAtMs > checkedBlockMs) {
       updatedListings.push(listing);
       continue;
     }
@@ -51,7 +345,8 @@ export async function reconcileListings(stateStore: StateStore): Promise<bigint>
           address: listing.collection,
           abi: ERC1155_BALANCE_OF_ABI,
           functionName: "balanceOf",
-          args: [TREASURY_ADDRESS, BigInt(listing.tokenId)]
+          args: [TREASURY_ADDRESS, BigInt(listing.tokenId)],
+          blockNumber: checkedBlock
         });
         if (typeof rawBalance !== "bigint") {
           throw new Error("Unexpected balanceOf return type");
@@ -67,12 +362,18 @@ export async function reconcileListings(stateStore: StateStore): Promise<bigint>
           updatedListings.push(listing);
           continue;
         }
+
+        anomalies.push({
+          listing,
+          reason: `ERC1155 balance dropped to ${balance.toString()} without a matching fill`
+        });
       } else {
         const rawOwner = await publicClient.readContract({
           address: listing.collection,
           abi: ERC721_OWNER_OF_ABI,
           functionName: "ownerOf",
-          args: [BigInt(listing.tokenId)]
+          args: [BigInt(listing.tokenId)],
+          blockNumber: checkedBlock
         });
         if (typeof rawOwner !== "string") {
           throw new Error("Unexpected ownerOf return type");
@@ -83,20 +384,12 @@ export async function reconcileListings(stateStore: StateStore): Promise<bigint>
           updatedListings.push(listing);
           continue;
         }
-      }
 
-      proceedsCaptured += listing.expectedProceedsWei;
-      logger.info(
-        {
-          orderHash: listing.orderHash,
-          collection: listing.collection,
-          tokenId: listing.tokenId,
-          amountWei: listing.expectedProceedsWei.toString(),
-          tokenStandard: listing.tokenStandard,
-          listedQuantity: listing.listedQuantity.toString()
-        },
-        "Detected NFT sale"
-      );
+        anomalies.push({
+          listing,
+          reason: `Token transferred to ${currentOwner} without a matching fill`
+        });
+      }
     } catch (error) {
       logger.warn(
         {
@@ -112,10 +405,110 @@ export async function reconcileListings(stateStore: StateStore): Promise<bigint>
     }
   }
 
+  if (anomalies.length === 0) {
+    return;
+  }
+
   state.activeListings = updatedListings;
-  if (proceedsCaptured > 0n) {
-    state.salePoolWei += proceedsCaptured;
+  for (const { listing, reason } of anomalies) {
+    logger.warn(
+      {
+        orderHash: listing.orderHash,
+        collection: listing.collection,
+        tokenId: listing.tokenId,
+        blockNumber: checkedBlock.toString(),
+        reason
+      },
+      "NFT left the treasury without a Seaport fill; recording anomaly instead of revenue"
+    );
+    stateStore.recordListingAnomaly({
+      orderHash: listing.orderHash,
+      collection: listing.collection,
+      tokenId: listing.tokenId,
+      blockNumber: checkedBlock,
+      reason
+    });
+  }
+}
+
+/** Removes the tokens a treasury order sold from unlisted inventory. */
+function releaseSoldInventory(state: BotState, fill: SeaportFillEvent): boolean {
+  let released = false;
+  for (const item of fill.offer) {
+    if (removeUnlistedInventory(state, item.token, item.identifier.toString(), item.amount)) {
+      released = true;
+    }
+  }
+  return released;
+}
+
+/**
+ * Checks that the treasury still holds its unlisted inventory. Tokens transferred out are
+ * dropped, and ERC1155 entries are cut down to the balance the treasury has left.
+ */
+async function pruneDepartedInventory(stateStore: StateStore, latestBlock: bigint): Promise<void> {
+  const state = stateStore.getState();
+  const treasuryLower = TREASURY_ADDRESS.toLowerCase();
+  let pruned = false;
+
+  for (const item of state.unlistedInventory.slice(0, MAX_LISTING_CHECKS_PER_TICK)) {
+    let departedQuantity: bigint;
+    try {
+      if (item.tokenStandard === "erc1155") {
+        const balance = await publicClient.readContract({
+          address: item.collection,
+          abi: ERC1155_BALANCE_OF_ABI,
+          functionName: "balanceOf",
+          args: [TREASURY_ADDRESS, BigInt(item.tokenId)],
+          blockNumber: latestBlock
+        });
+        departedQuantity = item.quantity > balance ? item.quantity - balance : 0n;
+      } else {
+        const owner = await publicClient.readContract({
+          address: item.collection,
+          abi: ERC721_OWNER_OF_ABI,
+          functionName: "ownerOf",
+          args: [BigInt(item.tokenId)],
+          blockNumber: latestBlock
+        });
+        departedQuantity = owner.toLowerCase() === treasuryLower ? 0n : item.quantity;
+      }
+    } catch (error) {
+      logger.warn(
+        {
+          collection: item.collection,
+          tokenId: item.tokenId,
+          err: error instanceof Error ? error.message : String(error)
+        },
+        "Failed to verify unlisted inventory ownership; keeping it for next iteration"
+      );
+      continue;
+    }
+
+    if (departedQuantity > 0n) {
+      removeUnlistedInventory(state, item.collection, item.tokenId, departedQuantity);
+      pruned = true;
+      logger.warn(
+        {
+          collection: item.collection,
+          tokenId: item.tokenId,
+          quantity: departedQuantity.toString(),
+          blockNumber: latestBlock.toString()
+        },
+        "Unlisted inventory left the treasury; removed it from inventory"
+      );
+    }
+  }
+
+  if (pruned) {
     await stateStore.save();
   }
-  return proceedsCaptured;
+}
+
+function uniqueProtocolAddresses(listings: readonly ActiveListingState[]): Address[] {
+  const seen = new Map<string, Address>();
+  for (const listing of listings) {
+    seen.set(listing.protocolAddress.toLowerCase(), listing.protocolAddress);
+  }
+  return [...seen.values()];
 }
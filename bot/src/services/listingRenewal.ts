@@ -0,0 +1,173 @@
+import {
+  CHAIN_ID,
+  LISTING_DURATION_SECONDS,
+  LISTING_MAX_RENEWALS,
+  LISTING_RENEWAL_LEAD_SECONDS,
+  MAX_LISTING_CHECKS_PER_TICK,
+  OPENSEA_API_KEY,
+  OPENSEA_API_URL,
+  getCollectionSettings
+} from "../config.js";
+import { renewOpenSeaListing } from "../marketplaces/openseaListings.js";
+import { StateStore } from "../state/stateStore.js";
+import { operatorAccount } from "../treasuryClient.js";
+import type { ActiveListingState, SignedListingOrder } from "../types.js";
+import { logger } from "../utils/logger.js";
+import { cancelStoredOrder } from "./listingCancellation.js";
+import { returnListingToInventory } from "./unlistedInventory.js";
+
+/**
+ * Re-signs listings that expire within `LISTING_RENEWAL_LEAD_SECONDS`, replaces them in
+ * `activeListings` and cancels the orders they replace. A listing that has used up
+ * `LISTING_MAX_RENEWALS`, or has no stored order to renew from, is left to expire and then
+ * returned to unlisted inventory. Runs after `reconcileListings` so listings sold since the last
+ * tick are not renewed.
+ */
+export async function renewExpiringListings(stateStore: StateStore): Promise<number> {
+  const nowSeconds = Math.floor(Date.now() / 1000);
+  const due = stateStore
+    .getState()
+    .activeListings.filter(
+      (listing) => listingEndTime(listing) - LISTING_RENEWAL_LEAD_SECONDS <= nowSeconds
+    );
+
+  let renewed = 0;
+  for (const listing of due.slice(0, MAX_LISTING_CHECKS_PER_TICK)) {
+    const expired = listingEndTime(listing) <= nowSeconds;
+
+    if (listing.renewalCount >= LISTING_MAX_RENEWALS) {
+      if (expired) {
+        await expireListing(
+          stateStore,
+          listing,
+          `expired after ${listing.renewalCount} renewal(s)`
+        );
+      }
+      continue;
+    }
+
+    const order = stateStore.getListingOrder(listing.orderHash);
+    if (!order) {
+      if (expired) {
+        await expireListing(stateStore, listing, "expired with no stored order to renew from");
+      }
+      continue;
+    }
+
+    try {
+      const result = await renewOpenSeaListing(
+        {
+          apiUrl: OPENSEA_API_URL,
+          apiKey: OPENSEA_API_KEY,
+          chainId: CHAIN_ID ?? 8453,
+          taker: operatorAccount.address
+        },
+        order,
+        {
+          priceBps: getCollectionSettings(listing.collection).renewalPriceBps,
+          listingDuration: LISTING_DURATION_SECONDS,
+          minimumProceedsWei: listing.minProceedsWei
+        }
+      );
+
+      stateStore.recordListingOrder(result.order);
+      stateStore.updateListings((listings) =>
+        listings.map((candidate) =>
+          candidate.orderHash === listing.orderHash
+            ? {
+                ...candidate,
+                orderHash: result.orderHash,
+                expectedProceedsWei: result.sellerProceedsWei,
+                listedAtMs: Date.now(),
+                postedToOpenSea: result.postedToOpenSea,
+                validatedOnchain: result.validatedOnchain,
+                endTime: Number(result.order.components.endTime),
+                renewalCount: candidate.renewalCount + 1
+              }
+            : candidate
+        )
+      );
+      await stateStore.save();
+      renewed += 1;
+
+      logger.info(
+        {
+          previousOrderHash: listing.orderHash,
+          orderHash: result.orderHash,
+          collection: listing.collection,
+          tokenId: listing.tokenId,
+          listingPriceWei: result.listingPriceWei.toString(),
+          expectedProceedsWei: result.sellerProceedsWei.toString(),
+          renewalCount: listing.renewalCount + 1,
+          postedToOpenSea: result.postedToOpenSea,
+          validatedOnchain: result.validatedOnchain
+        },
+        "Renewed expiring listing"
+      );
+
+      if (!expired) {
+        await cancelSupersededOrder(order);
+      }
+    } catch (error) {
+      logger.warn(
+        {
+          orderHash: listing.orderHash,
+          collection: listing.collection,
+          tokenId: listing.tokenId,
+          err: error instanceof Error ? error.message : String(error)
+        },
+        "Failed to renew listing; retrying next iteration"
+      );
+    }
+  }
+
+  return renewed;
+}
+
+/**
+ * Cancels the order a renewal replaced so it cannot fill at its old price before it expires.
+ * A failed cancellation is only logged: fills of the old order are still credited to the
+ * renewed listing.
+ */
+async function cancelSupersededOrder(order: SignedListingOrder): Promise<void> {
+  try {
+    await cancelStoredOrder(order);
+  } catch (error) {
+    logger.warn(
+      {
+        orderHash: order.orderHash,
+        err: error instanceof Error ? error.message : String(error)
+      },
+      "Failed to cancel superseded listing order; it stays fillable until it expires"
+    );
+  }
+}
+
+/** Listings stored before end times were tracked are assumed to use the default duration. */
+function listingEndTime(listing: ActiveListingState): number {
+  return listing.endTime ?? Math.floor(listing.listedAtMs / 1000) + LISTING_DURATION_SECONDS;
+}
+
+async function expireListing(
+  stateStore: StateStore,
+  listing: ActiveListingState,
+  reason: string
+): Promise<void> {
+  const state = stateStore.getState();
+  state.activeListings = state.activeListings.filter(
+    (candidate) => candidate.orderHash !== listing.orderHash
+  );
+  returnListingToInventory(state, listing, reason, Date.now());
+  await stateStore.save();
+
+  logger.warn(
+    {
+      orderHash: listing.orderHash,
+      collection: listing.collection,
+      tokenId: listing.tokenId,
+      renewalCount: listing.renewalCount,
+      reason
+    },
+    "Listing expired; token returned to unlisted inventory"
+  );
+}
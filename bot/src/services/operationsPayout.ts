@@ -0,0 +1,66 @@
+import { OPERATIONS_PAYOUT_MIN_WEI, OPERATIONS_WALLET_ADDRESS, TREASURY_ADDRESS } from "../config.js";
+import { StateStore } from "../state/stateStore.js";
+import { executeSeaport, publicClient, waitForReceipt } from "../treasuryClient.js";
+import { logger } from "../utils/logger.js";
+
+const OPERATIONS_OUTFLOW_REASON = "operations";
+
+const TREASURY_ROUTERS_ABI = [
+  {
+    type: "function",
+    name: "routers",
+    stateMutability: "view",
+    inputs: [{ name: "", type: "address" }],
+    outputs: [{ name: "", type: "bool" }]
+  }
+] as const;
+
+/**
+ * Sends the operations pool to `OPERATIONS_WALLET_ADDRESS` once it reaches
+ * `OPERATIONS_PAYOUT_MIN_WEI`. The treasury only sends ETH through `executeSeaport`, so the wallet
+ * must be an approved router on the treasury contract. Returns true if a payout was sent.
+ */
+export async function payOutOperationsPool(stateStore: StateStore): Promise<boolean> {
+  const state = stateStore.getState();
+  const amountWei = state.operationsPoolWei;
+  if (!OPERATIONS_WALLET_ADDRESS || amountWei <= 0n || amountWei < OPERATIONS_PAYOUT_MIN_WEI) {
+    return false;
+  }
+
+  const walletAllowed = await publicClient.readContract({
+    address: TREASURY_ADDRESS,
+    abi: TREASURY_ROUTERS_ABI,
+    functionName: "routers",
+    args: [OPERATIONS_WALLET_ADDRESS]
+  });
+  if (!walletAllowed) {
+    logger.error(
+      { wallet: OPERATIONS_WALLET_ADDRESS, amountWei: amountWei.toString() },
+      "Treasury contract is not authorized to send to the operations wallet; cannot pay out"
+    );
+    return false;
+  }
+
+  const txHash = await executeSeaport({
+    router: OPERATIONS_WALLET_ADDRESS,
+    valueWei: amountWei,
+    calldata: "0x",
+    callValueWei: 0n
+  });
+  logger.info(
+    { txHash, wallet: OPERATIONS_WALLET_ADDRESS, amountWei: amountWei.toString() },
+    "Submitted operations pool payout"
+  );
+  const receipt = await waitForReceipt(txHash);
+  stateStore.recordTreasuryOutflow({
+    txHash,
+    blockNumber: receipt.blockNumber,
+    amountWei,
+    reason: OPERATIONS_OUTFLOW_REASON
+  });
+
+  state.operationsPoolWei -= amountWei;
+  await stateStore.save();
+  logger.info({ txHash, amountWei: amountWei.toString() }, "Paid out operations pool");
+  return true;
+}
@@ -1,4 +1,5 @@
 import {
+  BLOCKED_ORDER_TTL_MS,
   CHAIN_ID,
   OPENSEA_API_KEY,
   OPENSEA_API_URL,
@@ -6,15 +7,35 @@ import {
   TARGET_COLLECTION_SLUG,
   TARGET_TOKEN_ID,
   TREASURY_ADDRESS,
-  ACTION_COOLDOWN_MS
+  ACTION_COOLDOWN_MS,
+  PURCHASE_MAX_CANDIDATES,
+  REBUY_COOLDOWN_MS
 } from "../config.js";
-import { fetchOpenSeaBuyExecution } from "../marketplaces/opensea.js";
+import {
+  fetchOpenSeaBuyExecution,
+  isTerminalOrderIssue,
+  type OpenSeaBuySelection
+} from "../marketplaces/opensea.js";
 import { createOpenSeaListing } from "../marketplaces/openseaListings.js";
 import { StateStore } from "../state/stateStore.js";
-import { executeSeaport, operatorAccount, publicClient, waitForReceipt } from "../treasuryClient.js";
+import { evaluatePurchasePolicy, evaluatePurchaseTiming } from "./purchasePolicy.js";
+import { addUnlistedInventory, removeUnlistedInventory } from "./unlistedInventory.js";
+import {
+  executeSeaport,
+  isContractRevert,
+  operatorAccount,
+  publicClient,
+  simulateExecuteSeaport,
+  waitForReceipt
+} from "../treasuryClient.js";
 import { logger } from "../utils/logger.js";
+import { serializeForLog } from "../utils/serialize.js";
 import { delay } from "../utils/time.js";
-import type { ExecutionPayload, TokenStandard } from "../types.js";
+import type {
+  OpenSeaListingBlueprint,
+  OrderValidationIssue,
+  TokenStandard
+} from "../types.js";
 
 const ERC1155_BALANCE_OF_ABI = [
   {
@@ -44,9 +65,21 @@ export async function attemptPurchaseAndListing(stateStore: StateStore): Promise
     return false;
   }
 
-  let execution: ExecutionPayload;
+  const timingRejection = evaluatePurchaseTiming(
+    stateStore.getLastOutflowAtMs("purchase"),
+    Date.now()
+  );
+  if (timingRejection) {
+    logger.debug(
+      { rule: timingRejection.rule, detail: timingRejection.detail },
+      "Purchase not allowed yet by policy; skipping iteration"
+    );
+    return false;
+  }
+
+  let selection: OpenSeaBuySelection;
   try {
-    execution = await fetchOpenSeaBuyExecution(
+    selection = await fetchOpenSeaBuyExecution(
       {
         apiUrl: OPENSEA_API_URL,
         apiKey: OPENSEA_API_KEY,
@@ -57,6 +90,24 @@ export async function attemptPurchaseAndListing(stateStore: StateStore): Promise
         collection: TARGET_COLLECTION,
         collectionSlug: TARGET_COLLECTION_SLUG,
         tokenId: TARGET_TOKEN_ID
+      },
+      {
+        exclusions: {
+          offerers: [TREASURY_ADDRESS, operatorAccount.address],
+          orderHashes: [
+            ...state.activeListings.map((listing) => listing.orderHash),
+            ...stateStore.getBlockedOrderHashes(Date.now() - BLOCKED_ORDER_TTL_MS)
+          ],
+          tokens:
+            REBUY_COOLDOWN_MS > 0
+              ? stateStore.getRecentlySoldTokens(Date.now() - REBUY_COOLDOWN_MS)
+              : []
+        },
+        screen: (candidate) => {
+          const rejection = evaluatePurchasePolicy(candidate, { state });
+          return rejection ? `policy ${rejection.rule}: ${rejection.detail}` : null;
+        },
+        maxCandidates: PURCHASE_MAX_CANDIDATES
       }
     );
   } catch (error) {
@@ -67,22 +118,76 @@ export async function attemptPurchaseAndListing(stateStore: StateStore): Promise
     return false;
   }
 
+  if (selection.skipped.length > 0) {
+    logger.info(
+      {
+        skipped: selection.skipped.map((listing) => ({
+          orderHash: listing.orderHash,
+          priceWei: listing.priceWei.toString(),
+          reason: listing.reason
+        }))
+      },
+      "Skipped OpenSea listings while choosing a purchase"
+    );
+  }
+  for (const listing of selection.skipped) {
+    if (listing.issues.some(isTerminalOrderIssue)) {
+      blockOrder(stateStore, listing.orderHash, listing.issues);
+    }
+  }
+  const execution = selection.execution;
+  if (!execution) {
+    logger.info(
+      { skippedCount: selection.skipped.length },
+      "No eligible OpenSea listing; skipping iteration"
+    );
+    return false;
+  }
+
   const cost = execution.valueWei;
   if (cost <= 0n || state.commissionPoolWei < cost) {
     return false;
   }
 
-  const purchaseTx = await executeSeaport({
+  const request = {
     router: execution.router,
     valueWei: cost,
     calldata: execution.calldata,
     callValueWei: 0n
-  });
+  };
+  try {
+    await simulateExecuteSeaport(request);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    if (!isContractRevert(error)) {
+      // Timeouts and rate limits say nothing about the order, so it is retried next tick.
+      logger.warn(
+        { orderHash: execution.orderHash, err: message },
+        "Purchase simulation could not run; skipping iteration"
+      );
+      return false;
+    }
+    const issue: OrderValidationIssue = { source: "simulation", code: "revert", message };
+    if (execution.orderHash) {
+      blockOrder(stateStore, execution.orderHash, [issue]);
+    } else {
+      logger.warn({ issues: [issue] }, "Purchase simulation failed; skipping iteration");
+    }
+    return false;
+  }
+
+  const purchaseTx = await executeSeaport(request);
   logger.info(
     { txHash: purchaseTx, costWei: cost.toString() },
     "Submitted NFT purchase transaction"
   );
-  await waitForReceipt(purchaseTx);
+  const purchaseReceipt = await waitForReceipt(purchaseTx);
+  stateStore.recordTreasuryOutflow({
+    txHash: purchaseTx,
+    blockNumber: purchaseReceipt.blockNumber,
+    amountWei: cost,
+    reason: "purchase"
+  });
 
   state.commissionPoolWei -= cost;
   await stateStore.save();
@@ -105,12 +210,18 @@ export async function attemptPurchaseAndListing(stateStore: StateStore): Promise
       },
       execution.openSeaMetadata,
       {
-        executionPriceWei: cost
+        executionPriceWei: cost,
+        acquisitionGasWei: purchaseReceipt.gasUsed * purchaseReceipt.effectiveGasPrice
       }
     );
 
     if (!listing) {
       logger.warn("Listing creation returned null; leaving NFT unlisted");
+      await returnPurchaseToInventory(
+        stateStore,
+        execution.openSeaMetadata,
+        `relist skipped after purchase ${purchaseTx}`
+      );
     } else {
       const tokenId = execution.openSeaMetadata.offerIdentifier.toString();
       const offerItemType = execution.openSeaMetadata.offerItemType;
@@ -156,25 +267,40 @@ export async function attemptPurchaseAndListing(stateStore: StateStore): Promise
         }
       }
 
+      stateStore.recordListingOrder(listing.order);
       state.activeListings.push({
         orderHash: listing.orderHash,
+        protocolAddress: execution.openSeaMetadata.protocolAddress,
         collection: execution.openSeaMetadata.offerToken,
         tokenId,
         expectedProceedsWei: listing.sellerProceedsWei,
         listedAtMs: Date.now(),
         tokenStandard,
         listedQuantity,
-        expectedPostSaleBalance
+        expectedPostSaleBalance,
+        postedToOpenSea: listing.postedToOpenSea,
+        validatedOnchain: listing.validatedOnchain,
+        filledQuantity: 0n,
+        endTime: Number(listing.order.components.endTime),
+        renewalCount: 0,
+        minProceedsWei: listing.pricingInputs?.targetProceedsWei ?? null,
+        pricingInputs: listing.pricingInputs
       });
+      removeUnlistedInventory(state, execution.openSeaMetadata.offerToken, tokenId);
       await stateStore.save();
       logger.info(
         {
           orderHash: listing.orderHash,
           expectedProceedsWei: listing.sellerProceedsWei.toString(),
+          listingPriceWei: listing.listingPriceWei.toString(),
+          endPriceWei: listing.endPriceWei.toString(),
+          pricingInputs: serializeForLog(listing.pricingInputs),
           tokenId,
           collection: execution.openSeaMetadata.offerToken,
           tokenStandard,
-          listedQuantity: listedQuantity.toString()
+          listedQuantity: listedQuantity.toString(),
+          postedToOpenSea: listing.postedToOpenSea,
+          validatedOnchain: listing.validatedOnchain
         },
         "Successfully created OpenSea listing"
       );
@@ -182,7 +308,12 @@ export async function attemptPurchaseAndListing(stateStore: StateStore): Promise
   } catch (error) {
     logger.error(
       { err: error instanceof Error ? error.message : String(error) },
-      "Failed to create OpenSea listing"
+      "Failed to create OpenSea listing; NFT returned to unlisted inventory"
+    );
+    await returnPurchaseToInventory(
+      stateStore,
+      execution.openSeaMetadata,
+      `relist failed after purchase ${purchaseTx}`
     );
   }
 
@@ -192,3 +323,38 @@ export async function attemptPurchaseAndListing(stateStore: StateStore): Promise
 
   return true;
 }
+
+/** Tracks a bought NFT that could not be relisted so it still counts as held inventory. */
+async function returnPurchaseToInventory(
+  stateStore: StateStore,
+  metadata: OpenSeaListingBlueprint,
+  reason: string
+): Promise<void> {
+  const quantity =
+    metadata.offerEndAmount > 0n
+      ? metadata.offerEndAmount
+      : metadata.offerStartAmount > 0n
+        ? metadata.offerStartAmount
+        : 1n;
+  addUnlistedInventory(stateStore.getState(), {
+    collection: metadata.offerToken,
+    tokenId: metadata.offerIdentifier.toString(),
+    tokenStandard: metadata.offerItemType === 3 ? "erc1155" : "erc721",
+    quantity,
+    reason,
+    sinceMs: Date.now()
+  });
+  await stateStore.save();
+}
+
+function blockOrder(
+  stateStore: StateStore,
+  orderHash: string,
+  issues: readonly OrderValidationIssue[]
+): void {
+  stateStore.recordBlockedOrder({ orderHash, issues, blockedAtMs: Date.now() });
+  logger.warn(
+    { orderHash, issues, blockedForMs: BLOCKED_ORDER_TTL_MS },
+    "Blocked OpenSea order that failed pre-purchase validation"
+  );
+}
@@ -0,0 +1,116 @@
+import { PURCHASE_MIN_INTERVAL_MS, getPurchaseRules } from "../config.js";
+import type { Address, BotState } from "../types.js";
+
+const BPS_DENOMINATOR = 10_000n;
+
+export type PurchasePolicyRule =
+  | "min_interval"
+  | "max_price"
+  | "max_pool_share"
+  | "max_inventory"
+  | "token_allowlist"
+  | "token_denylist";
+
+export interface PurchaseCandidate {
+  /** Null when the listing could not be attributed to a collection; only global rules apply. */
+  readonly collection: Address | null;
+  readonly tokenId: string | null;
+  readonly priceWei: bigint;
+}
+
+export interface PurchasePolicyContext {
+  readonly state: BotState;
+}
+
+export interface PurchasePolicyRejection {
+  readonly rule: PurchasePolicyRule;
+  readonly detail: string;
+}
+
+/**
+ * Checks the `PURCHASE_POLICY` rules that do not depend on the listing, so a purchase can be
+ * ruled out before any listings are fetched.
+ */
+export function evaluatePurchaseTiming(
+  lastPurchaseAtMs: number | null,
+  nowMs: number
+): PurchasePolicyRejection | null {
+  if (PURCHASE_MIN_INTERVAL_MS > 0 && lastPurchaseAtMs !== null) {
+    const elapsedMs = nowMs - lastPurchaseAtMs;
+    if (elapsedMs < PURCHASE_MIN_INTERVAL_MS) {
+      return {
+        rule: "min_interval",
+        detail: `last purchase ${elapsedMs}ms ago, minimum interval ${PURCHASE_MIN_INTERVAL_MS}ms`
+      };
+    }
+  }
+  return null;
+}
+
+/**
+ * Checks a candidate against the per-listing `PURCHASE_POLICY` rules, returning the first rule
+ * it breaks or null when it may be bought. Rules are checked in a fixed order so the same
+ * candidate is always rejected for the same reason.
+ */
+export function evaluatePurchasePolicy(
+  candidate: PurchaseCandidate,
+  context: PurchasePolicyContext
+): PurchasePolicyRejection | null {
+  const rules = getPurchaseRules(candidate.collection);
+
+  if (rules.maxPriceWei !== null && candidate.priceWei > rules.maxPriceWei) {
+    return {
+      rule: "max_price",
+      detail: `price ${candidate.priceWei.toString()} wei exceeds ${rules.maxPriceWei.toString()} wei`
+    };
+  }
+
+  if (rules.maxPoolShareBps !== null) {
+    const limitWei =
+      (context.state.commissionPoolWei * BigInt(rules.maxPoolShareBps)) / BPS_DENOMINATOR;
+    if (candidate.priceWei > limitWei) {
+      return {
+        rule: "max_pool_share",
+        detail: `price ${candidate.priceWei.toString()} wei exceeds ${rules.maxPoolShareBps} bps of the ${context.state.commissionPoolWei.toString()} wei pool`
+      };
+    }
+  }
+
+  if (candidate.collection === null) {
+    return null;
+  }
+
+  if (rules.maxInventory !== null) {
+    const held = countInventory(context.state, candidate.collection);
+    if (held >= rules.maxInventory) {
+      return {
+        rule: "max_inventory",
+        detail: `treasury already holds ${held} token(s) of ${candidate.collection}, limit ${rules.maxInventory}`
+      };
+    }
+  }
+
+  if (candidate.tokenId !== null) {
+    const tokenId = BigInt(candidate.tokenId).toString();
+    if (rules.allowTokenIds !== null && !rules.allowTokenIds.includes(tokenId)) {
+      return { rule: "token_allowlist", detail: `token ${tokenId} is not on the allow list` };
+    }
+    if (rules.denyTokenIds.includes(tokenId)) {
+      return { rule: "token_denylist", detail: `token ${tokenId} is on the deny list` };
+    }
+  }
+
+  return null;
+}
+
+/** Counts listed and unlisted tokens of `collection` that the treasury still holds. */
+function countInventory(state: BotState, collection: Address): number {
+  const collectionLower = collection.toLowerCase();
+  const listed = state.activeListings.filter(
+    (listing) => listing.collection.toLowerCase() === collectionLower
+  ).length;
+  const unlisted = state.unlistedInventory.filter(
+    (item) => item.collection.toLowerCase() === collectionLower
+  ).length;
+  return listed + unlisted;
+}
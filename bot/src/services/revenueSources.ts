@@ -0,0 +1,306 @@
+import { parseAbiItem, type Abi } from "viem";
+
+import {
+  REVENUE_SOURCES,
+  TOKEN_ADDRESS,
+  TREASURY_ADDRESS,
+  type RevenueSourceConfig
+} from "../config.js";
+import { StateStore } from "../state/stateStore.js";
+import { publicClient } from "../treasuryClient.js";
+import type { RevenueCursor, RevenueLedgerEntry } from "../types.js";
+import { logger } from "../utils/logger.js";
+import { getBlockHash, runCheckpointedScan } from "./checkpointedScan.js";
+import { creditPool, debitPool } from "./taxRouting.js";
+
+type EventSourceConfig = Extract<RevenueSourceConfig, { type: "event" }>;
+type NativeBalanceSourceConfig = Extract<RevenueSourceConfig, { type: "nativeBalance" }>;
+type AbiEvent = Extract<Abi[number], { type: "event" }>;
+
+const parsedEvents = new Map<string, AbiEvent>();
+
+/**
+ * Runs every configured revenue source through the checkpointed scanner. A failing source is
+ * logged and retried next tick without holding back the others.
+ */
+export async function collectRevenueSources(stateStore: StateStore): Promise<boolean> {
+  let captured = false;
+
+  for (const source of REVENUE_SOURCES) {
+    try {
+      if (await collectRevenueSource(stateStore, source)) {
+        captured = true;
+      }
+    } catch (error) {
+      logger.warn(
+        {
+          sourceId: source.id,
+          err: error instanceof Error ? error.message : String(error)
+        },
+        "Failed to collect revenue source; retrying next iteration"
+      );
+    }
+  }
+
+  return captured;
+}
+
+async function collectRevenueSource(
+  stateStore: StateStore,
+  source: RevenueSourceConfig
+): Promise<boolean> {
+  const state = stateStore.getState();
+  const cursor = getRevenueCursor(stateStore, source.id);
+  const pass = { fromBlock: 0n, toBlock: 0n, credited: [] as RevenueLedgerEntry[] };
+
+  await runCheckpointedScan({
+    label: `revenue:${source.id}`,
+    cursor,
+    startBlock: source.startBlock,
+    maxBlock: source.type === "nativeBalance" ? nativeSourceMaxBlock(stateStore, source) : null,
+    fetchRange: (fromBlock, toBlock) =>
+      source.type === "event"
+        ? fetchEventRevenue(source, fromBlock, toBlock)
+        : fetchNativeBalanceRevenue(stateStore, source, fromBlock, toBlock),
+    initialize: async (nextCursor) => {
+      setRevenueCursor(stateStore, { ...cursor, ...nextCursor });
+      await stateStore.save();
+    },
+    rollback: (afterBlock, nextCursor) => {
+      const removed = stateStore.rollbackRevenueAfter(source.id, afterBlock, (entries) => {
+        let removedWei = 0n;
+        let shortfallWei = 0n;
+        for (const entry of entries) {
+          removedWei += entry.amountWei;
+          shortfallWei += debitPool(state, entry.pool, entry.amountWei);
+        }
+        if (shortfallWei > 0n) {
+          logger.error(
+            { sourceId: source.id, pool: source.pool, shortfallWei: shortfallWei.toString() },
+            "Revenue credited from orphaned blocks was already spent; pool clamped to zero"
+          );
+        }
+
+        const current = getRevenueCursor(stateStore, source.id);
+        setRevenueCursor(stateStore, {
+          ...current,
+          ...nextCursor,
+          creditedWei: current.creditedWei > removedWei ? current.creditedWei - removedWei : 0n
+        });
+      });
+
+      logger.warn(
+        { sourceId: source.id, orphanedEntries: removed.length },
+        "Rolled back orphaned revenue"
+      );
+    },
+    commit: (entries, nextCursor) => {
+      if (pass.toBlock === 0n) {
+        pass.fromBlock = getRevenueCursor(stateStore, source.id).lastBlock + 1n;
+      }
+      pass.toBlock = nextCursor.lastBlock;
+      const credited = stateStore.creditRevenueEntries(entries, (newEntries) => {
+        let creditedWei = 0n;
+        for (const entry of newEntries) {
+          creditPool(state, entry.pool, entry.amountWei);
+          creditedWei += entry.amountWei;
+        }
+        const current = getRevenueCursor(stateStore, source.id);
+        setRevenueCursor(stateStore, {
+          ...current,
+          ...nextCursor,
+          creditedWei: current.creditedWei + creditedWei
+        });
+      });
+      pass.credited.push(...credited);
+    }
+  });
+
+  const totalCollected = pass.credited.reduce((total, entry) => total + entry.amountWei, 0n);
+  if (totalCollected <= 0n) {
+    return false;
+  }
+
+  logger.info(
+    {
+      sourceId: source.id,
+      pool: source.pool,
+      amountWei: totalCollected.toString(),
+      entries: pass.credited.length,
+      fromBlock: pass.fromBlock.toString(),
+      toBlock: pass.toBlock.toString()
+    },
+    "Captured revenue"
+  );
+  return true;
+}
+
+async function fetchEventRevenue(
+  source: EventSourceConfig,
+  fromBlock: bigint,
+  toBlock: bigint
+): Promise<RevenueLedgerEntry[]> {
+  const event = getSourceEvent(source);
+  const { recipientField } = source;
+  const recipientIndexed =
+    recipientField !== null &&
+    event.inputs.some((input) => input.name === recipientField && input.indexed);
+
+  const logs = await publicClient.getLogs({
+    address: source.address,
+    event,
+    args: recipientIndexed ? { [recipientField]: TREASURY_ADDRESS } : undefined,
+    fromBlock,
+    toBlock
+  });
+
+  const treasuryLower = TREASURY_ADDRESS.toLowerCase();
+  const entries: RevenueLedgerEntry[] = [];
+  for (const log of logs) {
+    const args = (log.args ?? {}) as Record<string, unknown>;
+    if (source.recipientField !== null) {
+      const recipient = args[source.recipientField];
+      if (typeof recipient !== "string" || recipient.toLowerCase() !== treasuryLower) {
+        continue;
+      }
+    }
+
+    const amount = args[source.amountField];
+    if (
+      typeof amount !== "bigint" ||
+      amount <= 0n ||
+      !log.transactionHash ||
+      !log.blockHash ||
+      log.blockNumber === null ||
+      log.logIndex === null
+    ) {
+      continue;
+    }
+
+    entries.push({
+      sourceId: source.id,
+      entryKey: `${log.transactionHash}:${log.logIndex}`,
+      blockNumber: log.blockNumber,
+      blockHash: log.blockHash,
+      txHash: log.transactionHash,
+      pool: source.pool,
+      amountWei: amount
+    });
+  }
+  return entries;
+}
+
+/**
+ * Credits balance growth over the range that is not explained by revenue the bot already
+ * tracks. For the treasury itself, credited tax and sale proceeds are subtracted and the bot's
+ * own recorded spending is added back, so only otherwise unaccounted deposits remain.
+ */
+async function fetchNativeBalanceRevenue(
+  stateStore: StateStore,
+  source: NativeBalanceSourceConfig,
+  fromBlock: bigint,
+  toBlock: bigint
+): Promise<RevenueLedgerEntry[]> {
+  const [balanceBefore, balanceAfter] = await Promise.all([
+    publicClient.getBalance({ address: source.address, blockNumber: fromBlock - 1n }),
+    publicClient.getBalance({ address: source.address, blockNumber: toBlock })
+  ]);
+
+  let deltaWei = balanceAfter - balanceBefore;
+  if (isTreasury(source)) {
+    const known = stateStore.sumKnownNativeMovements(fromBlock, toBlock);
+    deltaWei = deltaWei - known.inflowWei + known.outflowWei;
+  }
+
+  if (deltaWei <= 0n) {
+    if (deltaWei < 0n) {
+      logger.debug(
+        {
+          sourceId: source.id,
+          fromBlock: fromBlock.toString(),
+          toBlock: toBlock.toString(),
+          deltaWei: deltaWei.toString()
+        },
+        "Native balance fell by more than known outflows; nothing to credit"
+      );
+    }
+    return [];
+  }
+
+  return [
+    {
+      sourceId: source.id,
+      entryKey: `balance:${fromBlock.toString()}-${toBlock.toString()}`,
+      blockNumber: toBlock,
+      blockHash: await getBlockHash(toBlock),
+      txHash: null,
+      pool: source.pool,
+      amountWei: deltaWei
+    }
+  ];
+}
+
+/**
+ * A treasury balance source subtracts tax and sale proceeds, so it must not run ahead of the
+ * scanners that ledger them.
+ */
+function nativeSourceMaxBlock(
+  stateStore: StateStore,
+  source: NativeBalanceSourceConfig
+): bigint | null {
+  if (!isTreasury(source)) {
+    return null;
+  }
+  const state = stateStore.getState();
+  if (!TOKEN_ADDRESS) {
+    return state.lastFillBlock;
+  }
+  return state.lastTaxBlock < state.lastFillBlock ? state.lastTaxBlock : state.lastFillBlock;
+}
+
+function isTreasury(source: NativeBalanceSourceConfig): boolean {
+  return source.address.toLowerCase() === TREASURY_ADDRESS.toLowerCase();
+}
+
+function getSourceEvent(source: EventSourceConfig): AbiEvent {
+  const cached = parsedEvents.get(source.id);
+  if (cached) {
+    return cached;
+  }
+
+  const event = parseAbiItem(source.event);
+  if (!isAbiEvent(event)) {
+    throw new Error(`Revenue source ${source.id} does not declare an event: ${source.event}`);
+  }
+  for (const field of [source.amountField, source.recipientField]) {
+    if (field !== null && !event.inputs.some((input) => input.name === field)) {
+      throw new Error(`Revenue source ${source.id} event has no field named ${field}`);
+    }
+  }
+
+  parsedEvents.set(source.id, event);
+  return event;
+}
+
+function isAbiEvent(item: Abi[number]): item is AbiEvent {
+  return item.type === "event";
+}
+
+function getRevenueCursor(stateStore: StateStore, sourceId: string): RevenueCursor {
+  return (
+    stateStore.getState().revenueCursors.find((cursor) => cursor.sourceId === sourceId) ?? {
+      sourceId,
+      lastBlock: 0n,
+      checkpoints: [],
+      creditedWei: 0n
+    }
+  );
+}
+
+function setRevenueCursor(stateStore: StateStore, cursor: RevenueCursor): void {
+  const state = stateStore.getState();
+  state.revenueCursors = [
+    ...state.revenueCursors.filter((existing) => existing.sourceId !== cursor.sourceId),
+    cursor
+  ];
+}
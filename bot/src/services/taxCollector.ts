@@ -1,8 +1,16 @@
-import { LOG_FETCH_THROTTLE_MS, TREASURY_ADDRESS, TOKEN_ADDRESS } from "../config.js";
+import { TREASURY_ADDRESS, TOKEN_ADDRESS } from "../config.js";
 import { StateStore } from "../state/stateStore.js";
 import { publicClient } from "../treasuryClient.js";
+import type { Address, TaxLedgerEntry } from "../types.js";
 import { logger } from "../utils/logger.js";
-import { delay } from "../utils/time.js";
+import { runCheckpointedScan } from "./checkpointedScan.js";
+import {
+  allocateTax,
+  creditTaxAllocations,
+  formatPoolTotals,
+  reverseTaxAllocations,
+  sumAllocationsByPool
+} from "./taxRouting.js";
 
 const WALLET_TAX_SENT_EVENT = {
   type: "event",
@@ -14,76 +22,132 @@ const WALLET_TAX_SENT_EVENT = {
   ]
 } as const;
 
-const MAX_LOG_SPAN = 10n;
-
 export async function collectNewTaxProceeds(stateStore: StateStore): Promise<boolean> {
   if (!TOKEN_ADDRESS) {
     return false;
   }
 
   const state = stateStore.getState();
-  const latestBlock = await publicClient.getBlockNumber();
+  const pass = { fromBlock: 0n, toBlock: 0n, scanned: 0, credited: [] as TaxLedgerEntry[] };
 
-  if (state.lastTaxBlock === 0n) {
-    state.lastTaxBlock = latestBlock;
-    await stateStore.save();
-    return false;
-  }
+  await runCheckpointedScan({
+    label: "wallet-tax",
+    cursor: { lastBlock: state.lastTaxBlock, checkpoints: state.taxCheckpoints },
+    fetchRange: fetchTaxEvents,
+    initialize: async (cursor) => {
+      state.lastTaxBlock = cursor.lastBlock;
+      state.taxCheckpoints = [...cursor.checkpoints];
+      await stateStore.save();
+    },
+    rollback: (afterBlock, cursor) => {
+      const removed = stateStore.rollbackTaxEventsAfter(afterBlock, (entries) => {
+        const shortfalls = reverseTaxAllocations(state, entries);
+        if (shortfalls.size > 0) {
+          logger.error(
+            { shortfallWei: formatPoolTotals(shortfalls) },
+            "Tax credited from orphaned blocks was already spent; affected pools clamped to zero"
+          );
+        }
 
-  if (state.lastTaxBlock >= latestBlock) {
-    return false;
-  }
-
-  const startBlock = state.lastTaxBlock + 1n;
-  let cursor = startBlock;
-  let totalCollected = 0n;
-  const treasuryLower = TREASURY_ADDRESS.toLowerCase();
+        state.taxCheckpoints = [...cursor.checkpoints];
+        state.lastTaxBlock = cursor.lastBlock;
+      });
 
-  while (cursor <= latestBlock) {
-    const rangeEnd = cursor + (MAX_LOG_SPAN - 1n);
-    const toBlock = rangeEnd > latestBlock ? latestBlock : rangeEnd;
-
-    const logs = await publicClient.getLogs({
-      address: TOKEN_ADDRESS,
-      event: WALLET_TAX_SENT_EVENT,
-      fromBlock: cursor,
-      toBlock
-    });
-
-    for (const log of logs) {
-      const recipient = log.args?.recipient;
-      if (typeof recipient !== "string" || recipient.toLowerCase() !== treasuryLower) {
-        continue;
-      }
-      const amount = log.args?.amount;
-      if (typeof amount === "bigint" && amount > 0n) {
-        totalCollected += amount;
+      logger.warn(
+        {
+          orphanedEvents: removed.length,
+          rolledBackWei: formatPoolTotals(sumAllocationsByPool(removed)),
+          totalCommissionPool: state.commissionPoolWei.toString()
+        },
+        "Rolled back orphaned tax proceeds"
+      );
+    },
+    commit: (entries, cursor) => {
+      if (pass.toBlock === 0n) {
+        pass.fromBlock = state.lastTaxBlock + 1n;
       }
+      pass.toBlock = cursor.lastBlock;
+      pass.scanned += entries.length;
+      const credited = stateStore.creditTaxEvents(entries, (newEntries) => {
+        creditTaxAllocations(state, newEntries);
+        state.lastTaxBlock = cursor.lastBlock;
+        state.taxCheckpoints = [...cursor.checkpoints];
+      });
+      pass.credited.push(...credited);
     }
+  });
 
-    cursor = toBlock + 1n;
-
-    if (cursor <= latestBlock && LOG_FETCH_THROTTLE_MS > 0) {
-      await delay(LOG_FETCH_THROTTLE_MS);
-    }
+  const { credited } = pass;
+  if (pass.scanned > credited.length) {
+    logger.info(
+      { skippedEvents: pass.scanned - credited.length },
+      "Skipped tax events already present in the ledger"
+    );
   }
 
-  state.lastTaxBlock = latestBlock;
+  const totalCollected = credited.reduce((total, entry) => total + entry.amountWei, 0n);
   if (totalCollected > 0n) {
-    state.commissionPoolWei += totalCollected;
-    await stateStore.save();
     logger.info(
       {
         amountWei: totalCollected.toString(),
+        events: credited.length,
+        byPool: formatPoolTotals(sumAllocationsByPool(credited)),
         totalCommissionPool: state.commissionPoolWei.toString(),
-        fromBlock: startBlock.toString(),
-        toBlock: latestBlock.toString()
+        fromBlock: pass.fromBlock.toString(),
+        toBlock: pass.toBlock.toString()
       },
       "Captured new tax proceeds"
     );
     return true;
   }
 
-  await stateStore.save();
   return false;
 }
+
+export async function fetchTaxEvents(
+  fromBlock: bigint,
+  toBlock: bigint
+): Promise<TaxLedgerEntry[]> {
+  if (!TOKEN_ADDRESS) {
+    return [];
+  }
+
+  const logs = await publicClient.getLogs({
+    address: TOKEN_ADDRESS,
+    event: WALLET_TAX_SENT_EVENT,
+    fromBlock,
+    toBlock
+  });
+
+  const treasuryLower = TREASURY_ADDRESS.toLowerCase();
+  const entries: TaxLedgerEntry[] = [];
+  for (const log of logs) {
+    const recipient = log.args?.recipient;
+    if (typeof recipient !== "string" || recipient.toLowerCase() !== treasuryLower) {
+      continue;
+    }
+    const amount = log.args?.amount;
+    const taxId = Number(log.args?.id ?? 0);
+    if (
+      typeof amount !== "bigint" ||
+      amount <= 0n ||
+      !log.transactionHash ||
+      !log.blockHash ||
+      log.blockNumber === null ||
+      log.logIndex === null
+    ) {
+      continue;
+    }
+    entries.push({
+      txHash: log.transactionHash,
+      logIndex: log.logIndex,
+      blockNumber: log.blockNumber,
+      blockHash: log.blockHash,
+      taxId,
+      recipient: recipient as Address,
+      amountWei: amount,
+      allocations: allocateTax(taxId, amount)
+    });
+  }
+  return entries;
+}
@@ -0,0 +1,185 @@
+import { DEFAULT_TAX_POOL, TAX_ROUTES } from "../config.js";
+import type {
+  BotState,
+  TaxAllocation,
+  TaxLedgerEntry,
+  TaxPool,
+  TaxRoute,
+  TaxRouteShare
+} from "../types.js";
+
+const BPS_DENOMINATOR = 10_000n;
+
+const POOL_BALANCE_KEYS = {
+  purchase: "commissionPoolWei",
+  buyback: "salePoolWei",
+  reserve: "reservePoolWei",
+  operations: "operationsPoolWei"
+} as const satisfies Record<TaxPool, keyof BotState>;
+
+const routesByTaxId = new Map(TAX_ROUTES.map((route) => [route.taxId, route.shares]));
+const DEFAULT_SHARES: readonly TaxRouteShare[] = [
+  { pool: DEFAULT_TAX_POOL, bps: Number(BPS_DENOMINATOR) }
+];
+
+/**
+ * Splits a tax amount across pools using the configured route for its id. Rounding dust goes
+ * to the last share so the allocations always add up to the full amount.
+ */
+export function allocateTax(taxId: number, amountWei: bigint): TaxAllocation[] {
+  const shares = routesByTaxId.get(taxId) ?? DEFAULT_SHARES;
+  const allocations: TaxAllocation[] = [];
+  let remaining = amountWei;
+
+  shares.forEach((share, index) => {
+    const amount =
+      index === shares.length - 1 ? remaining : (amountWei * BigInt(share.bps)) / BPS_DENOMINATOR;
+    remaining -= amount;
+    allocations.push({ pool: share.pool, amountWei: amount });
+  });
+
+  return allocations;
+}
+
+export function getPoolBalance(state: BotState, pool: TaxPool): bigint {
+  return state[POOL_BALANCE_KEYS[pool]];
+}
+
+export function creditPool(state: BotState, pool: TaxPool, amountWei: bigint): void {
+  state[POOL_BALANCE_KEYS[pool]] += amountWei;
+}
+
+/**
+ * Takes `amountWei` back out of a pool, clamping at zero. Returns the part that could not be
+ * taken because the pool had already spent it.
+ */
+export function debitPool(state: BotState, pool: TaxPool, amountWei: bigint): bigint {
+  const key = POOL_BALANCE_KEYS[pool];
+  const debited = state[key] >= amountWei ? amountWei : state[key];
+  state[key] -= debited;
+  return amountWei - debited;
+}
+
+/**
+ * Adds the allocations of newly ledgered tax events to the pool balances and the per-stream
+ * totals.
+ */
+export function creditTaxAllocations(state: BotState, entries: readonly TaxLedgerEntry[]): void {
+  for (const entry of entries) {
+    for (const allocation of entry.allocations) {
+      creditPool(state, allocation.pool, allocation.amountWei);
+      adjustStream(state, entry.taxId, allocation.pool, allocation.amountWei);
+    }
+  }
+}
+
+/**
+ * Reverses the allocations of removed tax events. A pool that has already spent part of the
+ * reversed amount is clamped at zero; the returned map holds the amount that could not be
+ * taken back per pool.
+ */
+export function reverseTaxAllocations(
+  state: BotState,
+  entries: readonly TaxLedgerEntry[]
+): Map<TaxPool, bigint> {
+  const shortfalls = new Map<TaxPool, bigint>();
+
+  for (const entry of entries) {
+    for (const allocation of entry.allocations) {
+      const shortfall = debitPool(state, allocation.pool, allocation.amountWei);
+      if (shortfall > 0n) {
+        shortfalls.set(allocation.pool, (shortfalls.get(allocation.pool) ?? 0n) + shortfall);
+      }
+      adjustStream(state, entry.taxId, allocation.pool, -allocation.amountWei);
+    }
+  }
+
+  return shortfalls;
+}
+
+/**
+ * Swaps the allocations of `removed` ledger entries for those of `inserted` ones. Each pool and
+ * stream moves by its net difference in a single step and is clamped at zero once, so a pool that
+ * already spent its tax is not credited back when the rescan matches the ledger.
+ */
+export function replaceTaxAllocations(
+  state: BotState,
+  removed: readonly TaxLedgerEntry[],
+  inserted: readonly TaxLedgerEntry[]
+): void {
+  const poolDeltas = new Map<TaxPool, bigint>();
+  const streamDeltas = new Map<string, { taxId: number; pool: TaxPool; deltaWei: bigint }>();
+  const addDeltas = (entries: readonly TaxLedgerEntry[], sign: bigint): void => {
+    for (const entry of entries) {
+      for (const allocation of entry.allocations) {
+        const deltaWei = sign * allocation.amountWei;
+        poolDeltas.set(allocation.pool, (poolDeltas.get(allocation.pool) ?? 0n) + deltaWei);
+        const key = `${entry.taxId}:${allocation.pool}`;
+        const previousWei = streamDeltas.get(key)?.deltaWei ?? 0n;
+        streamDeltas.set(key, {
+          taxId: entry.taxId,
+          pool: allocation.pool,
+          deltaWei: previousWei + deltaWei
+        });
+      }
+    }
+  };
+  addDeltas(removed, -1n);
+  addDeltas(inserted, 1n);
+
+  for (const [pool, deltaWei] of poolDeltas) {
+    const key = POOL_BALANCE_KEYS[pool];
+    const balance = state[key] + deltaWei;
+    state[key] = balance > 0n ? balance : 0n;
+  }
+  for (const stream of streamDeltas.values()) {
+    if (stream.deltaWei !== 0n) {
+      adjustStream(state, stream.taxId, stream.pool, stream.deltaWei);
+    }
+  }
+}
+
+export function sumAllocationsByPool(entries: readonly TaxLedgerEntry[]): Map<TaxPool, bigint> {
+  const totals = new Map<TaxPool, bigint>();
+  for (const entry of entries) {
+    for (const allocation of entry.allocations) {
+      totals.set(allocation.pool, (totals.get(allocation.pool) ?? 0n) + allocation.amountWei);
+    }
+  }
+  return totals;
+}
+
+export function formatPoolTotals(totals: ReadonlyMap<TaxPool, bigint>): Record<string, string> {
+  return Object.fromEntries([...totals].map(([pool, amountWei]) => [pool, amountWei.toString()]));
+}
+
+/** Replaces the persisted routing table with the configured one. Returns true if it changed. */
+export function syncTaxRoutes(state: BotState): boolean {
+  const configured: TaxRoute[] = TAX_ROUTES.map((route) => ({
+    taxId: route.taxId,
+    shares: route.shares.map((share) => ({ ...share }))
+  }));
+  if (JSON.stringify(configured) === JSON.stringify(state.taxRoutes)) {
+    return false;
+  }
+  state.taxRoutes = configured;
+  return true;
+}
+
+function adjustStream(state: BotState, taxId: number, pool: TaxPool, deltaWei: bigint): void {
+  const existing = state.taxStreams.find(
+    (stream) => stream.taxId === taxId && stream.pool === pool
+  );
+  if (!existing) {
+    state.taxStreams = [
+      ...state.taxStreams,
+      { taxId, pool, creditedWei: deltaWei > 0n ? deltaWei : 0n }
+    ];
+    return;
+  }
+
+  const creditedWei = existing.creditedWei + deltaWei;
+  state.taxStreams = state.taxStreams.map((stream) =>
+    stream === existing ? { ...stream, creditedWei: creditedWei > 0n ? creditedWei : 0n } : stream
+  );
+}
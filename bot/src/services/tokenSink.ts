@@ -0,0 +1,94 @@
+import { encodeFunctionData } from "viem";
+import { TOKEN_SINK, TOKEN_TRANSFER_TAX_BPS, TREASURY_ADDRESS } from "../config.js";
+import type { TreasuryReceipt } from "../treasuryClient.js";
+import type { Address, Hex, TokenSinkLeg } from "../types.js";
+import { applyBps } from "./buybackQuote.js";
+import { sumTokenTransfers } from "./tokenTransfers.js";
+
+const BPS_DENOMINATOR = 10_000n;
+const ZERO_ADDRESS: Address = "0x0000000000000000000000000000000000000000";
+
+const TOKEN_SINK_ABI = [
+  {
+    type: "function",
+    name: "transfer",
+    stateMutability: "nonpayable",
+    inputs: [
+      { name: "recipient", type: "address" },
+      { name: "amount", type: "uint256" }
+    ],
+    outputs: [{ name: "", type: "bool" }]
+  },
+  {
+    type: "function",
+    name: "burn",
+    stateMutability: "nonpayable",
+    inputs: [{ name: "amount", type: "uint256" }],
+    outputs: []
+  }
+] as const;
+
+/**
+ * Splits `amount` across the `TOKEN_SINK` destinations. Rounding dust goes to the last one so
+ * the legs add up to the full amount; legs that round to zero are dropped.
+ */
+export function planTokenSink(amount: bigint): TokenSinkLeg[] {
+  let remaining = amount;
+  const legs = TOKEN_SINK.map((sink, index) => {
+    const legAmount =
+      index === TOKEN_SINK.length - 1 ? remaining : (amount * BigInt(sink.bps)) / BPS_DENOMINATOR;
+    remaining -= legAmount;
+    return { kind: sink.kind, recipient: sink.recipient, amount: legAmount };
+  });
+  return legs.filter((leg) => leg.amount > 0n);
+}
+
+export function encodeSinkCall(leg: TokenSinkLeg): Hex {
+  return leg.kind === "burn"
+    ? encodeFunctionData({ abi: TOKEN_SINK_ABI, functionName: "burn", args: [leg.amount] })
+    : encodeFunctionData({
+        abi: TOKEN_SINK_ABI,
+        functionName: "transfer",
+        args: [requireRecipient(leg), leg.amount]
+      });
+}
+
+/**
+ * Checks a sent leg against the `Transfer` logs in its receipt: the treasury must have burned
+ * (transferred to the zero address) the full amount, or sent the recipient at least the amount
+ * less `TOKEN_TRANSFER_TAX_BPS`. Only the leg's own transaction is counted, so other supply or
+ * balance changes around it cannot pass or fail the check. Returns a description of the
+ * shortfall, or null when the leg checks out.
+ */
+export function verifySinkLeg(
+  token: Address,
+  leg: TokenSinkLeg,
+  receipt: TreasuryReceipt
+): string | null {
+  if (leg.kind === "burn") {
+    const burned = sumTokenTransfers(receipt.logs, token, {
+      from: TREASURY_ADDRESS,
+      to: ZERO_ADDRESS
+    });
+    return burned >= leg.amount
+      ? null
+      : `burned ${burned.toString()}, expected ${leg.amount.toString()}`;
+  }
+
+  const recipient = requireRecipient(leg);
+  const received = sumTokenTransfers(receipt.logs, token, {
+    from: TREASURY_ADDRESS,
+    to: recipient
+  });
+  const expected = applyBps(leg.amount, TOKEN_TRANSFER_TAX_BPS);
+  return received >= expected
+    ? null
+    : `${recipient} received ${received.toString()}, expected ${expected.toString()}`;
+}
+
+function requireRecipient(leg: TokenSinkLeg): Address {
+  if (!leg.recipient) {
+    throw new Error(`Token sink ${leg.kind} leg has no recipient`);
+  }
+  return leg.recipient;
+}
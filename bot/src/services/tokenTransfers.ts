@@ -0,0 +1,53 @@
+import { decodeEventLog, type Log } from "viem";
+
+import type { Address } from "../types.js";
+
+const TRANSFER_EVENT = {
+  type: "event",
+  name: "Transfer",
+  inputs: [
+    { name: "from", type: "address", indexed: true },
+    { name: "to", type: "address", indexed: true },
+    { name: "value", type: "uint256", indexed: false }
+  ]
+} as const;
+
+export interface TransferFilter {
+  readonly from?: Address;
+  readonly to: Address;
+}
+
+/**
+ * Sums the ERC20 `Transfer` logs of `token` in a receipt that match `filter`. Reading amounts
+ * from the transaction's own logs keeps unrelated transfers in the same or later blocks out.
+ */
+export function sumTokenTransfers(
+  logs: readonly Log[],
+  token: Address,
+  filter: TransferFilter
+): bigint {
+  const tokenLower = token.toLowerCase();
+  const fromLower = filter.from?.toLowerCase();
+  const toLower = filter.to.toLowerCase();
+
+  let total = 0n;
+  for (const log of logs) {
+    if (log.address.toLowerCase() !== tokenLower) {
+      continue;
+    }
+    let args: { from: Address; to: Address; value: bigint };
+    try {
+      ({ args } = decodeEventLog({ abi: [TRANSFER_EVENT], data: log.data, topics: log.topics }));
+    } catch {
+      // Other events the token emitted in the same transaction.
+      continue;
+    }
+    if (
+      args.to.toLowerCase() === toLower &&
+      (fromLower === undefined || args.from.toLowerCase() === fromLower)
+    ) {
+      total += args.value;
+    }
+  }
+  return total;
+}
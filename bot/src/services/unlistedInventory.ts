@@ -0,0 +1,60 @@
+import type { ActiveListingState, Address, BotState, UnlistedInventoryItem } from "../types.js";
+
+/**
+ * Records what is left of a listing that was taken down as unlisted inventory, replacing any
+ * earlier entry for the same token.
+ */
+export function returnListingToInventory(
+  state: BotState,
+  listing: ActiveListingState,
+  reason: string,
+  sinceMs: number
+): void {
+  const quantity = listing.listedQuantity - listing.filledQuantity;
+  addUnlistedInventory(state, {
+    collection: listing.collection,
+    tokenId: listing.tokenId,
+    tokenStandard: listing.tokenStandard,
+    quantity: quantity > 0n ? quantity : 1n,
+    reason,
+    sinceMs
+  });
+}
+
+export function addUnlistedInventory(state: BotState, item: UnlistedInventoryItem): void {
+  state.unlistedInventory = [
+    ...state.unlistedInventory.filter(
+      (existing) => !isSameToken(existing, item.collection, item.tokenId)
+    ),
+    item
+  ];
+}
+
+/**
+ * Takes `quantity` of a token out of unlisted inventory, or all of it when `quantity` is null,
+ * because it was relisted, sold or left the treasury. Returns true if an entry changed.
+ */
+export function removeUnlistedInventory(
+  state: BotState,
+  collection: Address,
+  tokenId: string,
+  quantity: bigint | null = null
+): boolean {
+  const existing = state.unlistedInventory.find((item) => isSameToken(item, collection, tokenId));
+  if (!existing) {
+    return false;
+  }
+
+  const remaining = quantity === null ? 0n : existing.quantity - quantity;
+  state.unlistedInventory =
+    remaining > 0n
+      ? state.unlistedInventory.map((item) =>
+          item === existing ? { ...item, quantity: remaining } : item
+        )
+      : state.unlistedInventory.filter((item) => item !== existing);
+  return true;
+}
+
+function isSameToken(item: UnlistedInventoryItem, collection: Address, tokenId: string): boolean {
+  return item.collection.toLowerCase() === collection.toLowerCase() && item.tokenId === tokenId;
+}
@@ -0,0 +1,91 @@
+import { decodeFunctionData, keccak256, parseAbi, stringToHex } from "viem";
+
+import { getSeaport } from "./marketplaces/openseaClients.js";
+import type { Hex, ShadowAction } from "./types.js";
+import { logger } from "./utils/logger.js";
+import { serializeForLog } from "./utils/serialize.js";
+
+export type ShadowRecorder = (action: ShadowAction) => void;
+
+export interface DecodedCall {
+  readonly functionName: string;
+  readonly args: unknown;
+}
+
+const KNOWN_CALL_ABI = parseAbi([
+  "function swapExactETHForTokensSupportingFeeOnTransferTokens(uint256 amountOutMin, address[] path, address to, uint256 deadline)",
+  "function transfer(address recipient, uint256 amount)"
+]);
+
+export const SHADOW_SIGNATURE: Hex = `0x${"00".repeat(65)}`;
+
+let recorder: ShadowRecorder | null = null;
+let shadowNonce = 0;
+const shadowTxHashes = new Set<Hex>();
+
+export function setShadowRecorder(nextRecorder: ShadowRecorder | null): void {
+  recorder = nextRecorder;
+}
+
+export function recordShadowAction(action: ShadowAction): void {
+  logger.info(
+    {
+      kind: action.kind,
+      target: action.target,
+      valueWei: action.valueWei.toString(),
+      txHash: action.txHash,
+      decoded: serializeForLog(action.decoded)
+    },
+    "Shadow mode: recorded planned action"
+  );
+
+  if (!recorder) {
+    return;
+  }
+
+  try {
+    recorder(action);
+  } catch (error) {
+    logger.warn(
+      { kind: action.kind, err: error instanceof Error ? error.message : String(error) },
+      "Failed to persist shadow action"
+    );
+  }
+}
+
+/**
+ * Shadow transactions never reach the chain, so each one gets a synthetic hash that
+ * `waitForReceipt` recognises and answers locally.
+ */
+export function createShadowTxHash(seed: Hex | null): Hex {
+  shadowNonce += 1;
+  const hash = keccak256(stringToHex(`shadow:${Date.now()}:${shadowNonce}:${seed ?? "0x"}`));
+  shadowTxHashes.add(hash);
+  return hash;
+}
+
+export function isShadowTxHash(hash: Hex): boolean {
+  return shadowTxHashes.has(hash);
+}
+
+export function decodeCalldata(calldata: Hex): DecodedCall | null {
+  if (calldata.length < 10) {
+    return null;
+  }
+
+  try {
+    const parsed = getSeaport().contract.interface.parseTransaction({ data: calldata });
+    if (parsed) {
+      return { functionName: parsed.name, args: serializeForLog(Array.from(parsed.args)) };
+    }
+  } catch {
+    // Not a Seaport call; fall through to the generic ABI list.
+  }
+
+  try {
+    const decoded = decodeFunctionData({ abi: KNOWN_CALL_ABI, data: calldata });
+    return { functionName: decoded.functionName, args: serializeForLog(decoded.args ?? []) };
+  } catch {
+    return { functionName: calldata.slice(0, 10), args: null };
+  }
+}
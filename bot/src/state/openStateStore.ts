@@ -0,0 +1,32 @@
+import {
+  DRY_RUN,
+  LEGACY_STATE_FILE,
+  SHADOW_STATE_DB_FILE,
+  STATE_DB_FILE
+} from "../config.js";
+import { setShadowRecorder } from "../shadow.js";
+import { logger } from "../utils/logger.js";
+import { StateStore } from "./stateStore.js";
+
+/**
+ * Loads the real state store, or under DRY_RUN a shadow store re-seeded from it on every start
+ * so simulated writes never touch real balances.
+ */
+export async function openStateStore(latestBlock: bigint): Promise<StateStore> {
+  const stateStore = new StateStore(STATE_DB_FILE, LEGACY_STATE_FILE);
+  await stateStore.load(latestBlock);
+  if (!DRY_RUN) {
+    return stateStore;
+  }
+
+  const shadowStore = new StateStore(SHADOW_STATE_DB_FILE);
+  await shadowStore.loadSnapshot(stateStore.getState(), STATE_DB_FILE);
+  stateStore.close();
+  setShadowRecorder((action) => shadowStore.recordShadowAction(action));
+
+  logger.warn(
+    { stateDb: STATE_DB_FILE, shadowStateDb: SHADOW_STATE_DB_FILE },
+    "DRY_RUN enabled; writes are simulated and recorded in shadow state only"
+  );
+  return shadowStore;
+}
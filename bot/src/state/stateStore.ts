@@ -2,21 +2,51 @@ import Database from "better-sqlite3";
 import { existsSync } from "node:fs";
 import { mkdir, readFile } from "node:fs/promises";
 import { dirname, resolve } from "node:path";
-import type { ActiveListingState, BotState } from "../types.js";
+import type {
+  ActiveListingState,
+  Address,
+  BlockedOrderRecord,
+  BotState,
+  BuybackJob,
+  BuybackJobStatus,
+  BuybackSlice,
+  Hex,
+  ListingAnomalyRecord,
+  ListingFillRecord,
+  ListingPricingInputs,
+  PresignedTransaction,
+  RevenueLedgerEntry,
+  ScanCheckpoint,
+  ShadowAction,
+  SignedListingOrder,
+  TaxAllocation,
+  TaxLedgerEntry,
+  TaxPool,
+  TokenSinkKind,
+  TokenSinkLeg,
+  TreasuryOutflowRecord,
+  UnlistedInventoryItem
+} from "../types.js";
+import { stringifyForStorage } from "../utils/serialize.js";
 
 const STATE_VERSION = 3;
+const LEGACY_LISTING_PROTOCOL_ADDRESS = "0x0000000000000068F116a894984e2DB1123eB395";
 
 interface StateRow {
   readonly version: number;
   readonly commissionPoolWei: string;
   readonly salePoolWei: string;
+  readonly reservePoolWei?: string | null;
+  readonly operationsPoolWei?: string | null;
   readonly lastTaxBlock: string;
+  readonly lastFillBlock?: string | null;
   readonly pendingBurnAmount: string;
   readonly pendingBurnCostWei: string;
 }
 
 interface ListingRow {
   readonly orderHash: string;
+  readonly protocolAddress?: string | null;
   readonly collection: string;
   readonly tokenId: string;
   readonly expectedProceedsWei: string;
@@ -24,6 +54,115 @@ interface ListingRow {
   readonly tokenStandard?: string | null;
   readonly listedQuantity?: string | null;
   readonly expectedPostSaleBalance?: string | null;
+  readonly postedToOpenSea?: number | null;
+  readonly validatedOnchain?: number | null;
+  readonly filledQuantity?: string | null;
+  readonly endTime?: number | null;
+  readonly renewalCount?: number | null;
+  readonly minProceedsWei?: string | null;
+  readonly pricingInputs?: string | null;
+}
+
+interface ListingOrderRow {
+  readonly orderHash: string;
+  readonly protocolAddress: string;
+  readonly components: string;
+  readonly signature: string;
+  readonly createdAtMs: number;
+}
+
+interface InventoryRow {
+  readonly collection: string;
+  readonly tokenId: string;
+  readonly tokenStandard: string;
+  readonly quantity: string;
+  readonly reason: string;
+  readonly sinceMs: number;
+}
+
+interface ScanCheckpointRow {
+  readonly fromBlock: string;
+  readonly blockNumber: string;
+  readonly blockHash: string;
+}
+
+interface ListingFillRow {
+  readonly txHash: string;
+  readonly logIndex: number;
+  readonly orderHash: string;
+  readonly blockNumber: string;
+  readonly taker: string;
+  readonly collection: string;
+  readonly tokenId: string;
+  readonly quantity: string;
+  readonly proceedsWei: string;
+  readonly expectedProceedsWei: string | null;
+}
+
+interface TaxLedgerRow {
+  readonly txHash: string;
+  readonly logIndex: number;
+  readonly blockNumber: number;
+  readonly blockHash: string;
+  readonly taxId: number;
+  readonly recipient: string;
+  readonly amountWei: string;
+  readonly allocations?: string | null;
+}
+
+interface RevenueCursorRow {
+  readonly sourceId: string;
+  readonly lastBlock: string;
+  readonly creditedWei: string;
+}
+
+interface RevenueCheckpointRow extends ScanCheckpointRow {
+  readonly sourceId: string;
+}
+
+interface RevenueLedgerRow {
+  readonly sourceId: string;
+  readonly entryKey: string;
+  readonly blockNumber: number;
+  readonly blockHash: string;
+  readonly txHash: string | null;
+  readonly pool: string;
+  readonly amountWei: string;
+}
+
+interface TaxRouteRow {
+  readonly taxId: number;
+  readonly pool: string;
+  readonly bps: number;
+}
+
+interface TaxStreamRow {
+  readonly taxId: number;
+  readonly pool: string;
+  readonly creditedWei: string;
+}
+
+interface BuybackJobRow {
+  readonly id: number;
+  readonly status: string;
+  readonly amountInWei: string;
+  readonly minAmountOut: string;
+  readonly expectedOut: string | null;
+  readonly tokenBalanceBeforeSwap: string;
+  readonly swapTxHash: string | null;
+  readonly swapRawTx: string | null;
+  readonly swapNonce: number | null;
+  readonly purchasedAmount: string | null;
+  readonly sinkPlan: string | null;
+  readonly sinkLegsDone: number;
+  readonly sinkReverts: number;
+  readonly tokenBalanceBeforeBurn: string | null;
+  readonly burnTxHash: string | null;
+  readonly burnRawTx: string | null;
+  readonly burnNonce: number | null;
+  readonly error: string | null;
+  readonly createdAtMs: number;
+  readonly updatedAtMs: number;
 }
 
 export class StateStore {
@@ -72,6 +211,858 @@ export class StateStore {
     }
   }
 
+  /**
+   * Opens the database and seeds it with a copy of another store's state and tables. Used by
+   * shadow mode so that simulated runs start from real balances without touching them. Every
+   * table except the shadow action log is replaced, so nothing simulated in an earlier run
+   * (ledger rows, stored orders, buyback jobs) outlives a restart.
+   */
+  public async loadSnapshot(snapshot: BotState, sourceDbFile: string): Promise<void> {
+    await this.ensureDirectory();
+
+    this.db = new Database(this.dbPath);
+    this.db.pragma("journal_mode = WAL");
+    this.db.pragma("foreign_keys = ON");
+
+    this.setupSchema();
+    this.copyTablesFrom(resolve(sourceDbFile));
+
+    this.state = cloneState(snapshot);
+    this.persistState();
+  }
+
+  public close(): void {
+    this.db?.close();
+    this.db = null;
+  }
+
+  /**
+   * Stores the full signed order behind a listing so it can be re-posted, re-validated,
+   * cancelled or exported later without re-signing.
+   */
+  public recordListingOrder(order: SignedListingOrder): void {
+    const db = this.requireDb();
+    db.prepare(
+      `
+        INSERT OR REPLACE INTO listing_orders (
+          orderHash,
+          protocolAddress,
+          components,
+          signature,
+          counter,
+          salt,
+          startTime,
+          endTime,
+          createdAtMs
+        )
+        VALUES (
+          @orderHash,
+          @protocolAddress,
+          @components,
+          @signature,
+          @counter,
+          @salt,
+          @startTime,
+          @endTime,
+          @createdAtMs
+        )
+      `
+    ).run({
+      orderHash: order.orderHash,
+      protocolAddress: order.protocolAddress,
+      components: stringifyForStorage(order.components),
+      signature: order.signature,
+      counter: order.components.counter.toString(),
+      salt: order.components.salt.toString(),
+      startTime: order.components.startTime.toString(),
+      endTime: order.components.endTime.toString(),
+      createdAtMs: order.createdAtMs
+    });
+  }
+
+  public getListingOrder(orderHash: string): SignedListingOrder | null {
+    const db = this.requireDb();
+    const row = db
+      .prepare(
+        `
+          SELECT orderHash, protocolAddress, components, signature, createdAtMs
+          FROM listing_orders
+          WHERE lower(orderHash) = lower(?)
+        `
+      )
+      .get(orderHash) as ListingOrderRow | undefined;
+    return row ? mapListingOrderRow(row) : null;
+  }
+
+  public listListingOrders(): SignedListingOrder[] {
+    const db = this.requireDb();
+    const rows = db
+      .prepare(
+        `
+          SELECT orderHash, protocolAddress, components, signature, createdAtMs
+          FROM listing_orders
+          ORDER BY createdAtMs ASC
+        `
+      )
+      .all() as ListingOrderRow[];
+    return rows.map(mapListingOrderRow);
+  }
+
+  public recordShadowAction(action: ShadowAction): void {
+    if (!this.db) {
+      throw new Error("Database connection has not been initialized");
+    }
+
+    this.db
+      .prepare(
+        `
+          INSERT INTO shadow_actions (
+            recordedAtMs,
+            kind,
+            target,
+            valueWei,
+            calldata,
+            decoded,
+            simulation,
+            txHash
+          )
+          VALUES (
+            @recordedAtMs,
+            @kind,
+            @target,
+            @valueWei,
+            @calldata,
+            @decoded,
+            @simulation,
+            @txHash
+          )
+        `
+      )
+      .run({
+        recordedAtMs: Date.now(),
+        kind: action.kind,
+        target: action.target,
+        valueWei: action.valueWei.toString(),
+        calldata: action.calldata,
+        decoded: stringifyForStorage(action.decoded ?? null),
+        simulation: stringifyForStorage(action.simulation ?? null),
+        txHash: action.txHash
+      });
+  }
+
+  public hasListingFill(txHash: string, logIndex: number): boolean {
+    if (!this.db) {
+      throw new Error("Database connection has not been initialized");
+    }
+
+    const row = this.db
+      .prepare("SELECT 1 FROM listing_fills WHERE txHash = ? AND logIndex = ?")
+      .get(txHash, logIndex);
+    return row !== undefined;
+  }
+
+  /**
+   * Stores a matched Seaport fill together with the in-memory state (already updated by the
+   * caller) in a single transaction, so a fill is never credited without being recorded.
+   */
+  public recordListingFill(fill: ListingFillRecord): void {
+    const db = this.requireDb();
+    const transaction = db.transaction(() => {
+      db.prepare(
+        `
+          INSERT OR IGNORE INTO listing_fills (
+            txHash,
+            logIndex,
+            orderHash,
+            blockNumber,
+            taker,
+            collection,
+            tokenId,
+            quantity,
+            proceedsWei,
+            expectedProceedsWei,
+            recordedAtMs
+          )
+          VALUES (
+            @txHash,
+            @logIndex,
+            @orderHash,
+            @blockNumber,
+            @taker,
+            @collection,
+            @tokenId,
+            @quantity,
+            @proceedsWei,
+            @expectedProceedsWei,
+            @recordedAtMs
+          )
+        `
+      ).run({
+        txHash: fill.txHash,
+        logIndex: fill.logIndex,
+        orderHash: fill.orderHash,
+        blockNumber: fill.blockNumber.toString(),
+        taker: fill.taker,
+        collection: fill.collection,
+        tokenId: fill.tokenId,
+        quantity: fill.quantity.toString(),
+        proceedsWei: fill.proceedsWei.toString(),
+        expectedProceedsWei: fill.expectedProceedsWei.toString(),
+        recordedAtMs: Date.now()
+      });
+      this.persistState();
+    });
+    this.runStateTransaction(transaction);
+  }
+
+  /**
+   * Deletes the fills recorded above `blockNumber` and lets the caller undo their effect on the
+   * in-memory state; both are committed in one transaction.
+   */
+  public rollbackListingFillsAfter(
+    blockNumber: bigint,
+    applyRollback: (removed: readonly ListingFillRecord[]) => void
+  ): ListingFillRecord[] {
+    const db = this.requireDb();
+    let removed: ListingFillRecord[] = [];
+
+    const transaction = db.transaction(() => {
+      const rows = db
+        .prepare(
+          `
+            SELECT txHash, logIndex, orderHash, blockNumber, taker, collection, tokenId, quantity,
+              proceedsWei, expectedProceedsWei
+            FROM listing_fills
+            WHERE CAST(blockNumber AS INTEGER) > ?
+            ORDER BY CAST(blockNumber AS INTEGER) ASC, logIndex ASC
+          `
+        )
+        .all(blockNumber) as ListingFillRow[];
+
+      removed = rows.map(mapListingFillRow);
+      db.prepare("DELETE FROM listing_fills WHERE CAST(blockNumber AS INTEGER) > ?").run(
+        blockNumber
+      );
+
+      applyRollback(removed);
+      this.persistState();
+    });
+
+    this.runStateTransaction(transaction);
+    return removed;
+  }
+
+  /** Blocks an order from being bought again; re-blocking refreshes its issues and time. */
+  public recordBlockedOrder(record: BlockedOrderRecord): void {
+    const db = this.requireDb();
+    db.prepare(
+      `
+        INSERT INTO blocked_orders (orderHash, issues, blockedAtMs)
+        VALUES (@orderHash, @issues, @blockedAtMs)
+        ON CONFLICT(orderHash) DO UPDATE SET
+          issues = excluded.issues,
+          blockedAtMs = excluded.blockedAtMs
+      `
+    ).run({
+      orderHash: record.orderHash.toLowerCase(),
+      issues: JSON.stringify(record.issues),
+      blockedAtMs: record.blockedAtMs
+    });
+  }
+
+  /** Order hashes blocked at or after `sinceMs`, lowercased. */
+  public getBlockedOrderHashes(sinceMs: number): string[] {
+    const db = this.requireDb();
+    const rows = db
+      .prepare("SELECT orderHash FROM blocked_orders WHERE blockedAtMs >= ?")
+      .all(sinceMs) as { orderHash: string }[];
+    return rows.map((row) => row.orderHash);
+  }
+
+  public recordListingAnomaly(anomaly: ListingAnomalyRecord): void {
+    const db = this.requireDb();
+    const transaction = db.transaction(() => {
+      db.prepare(
+        `
+          INSERT INTO listing_anomalies (
+            orderHash,
+            collection,
+            tokenId,
+            blockNumber,
+            reason,
+            detectedAtMs
+          )
+          VALUES (
+            @orderHash,
+            @collection,
+            @tokenId,
+            @blockNumber,
+            @reason,
+            @detectedAtMs
+          )
+        `
+      ).run({
+        orderHash: anomaly.orderHash,
+        collection: anomaly.collection,
+        tokenId: anomaly.tokenId,
+        blockNumber: anomaly.blockNumber.toString(),
+        reason: anomaly.reason,
+        detectedAtMs: Date.now()
+      });
+      this.persistState();
+    });
+    this.runStateTransaction(transaction);
+  }
+
+  /**
+   * Inserts tax events into the ledger and lets the caller credit the newly inserted ones to
+   * the in-memory pools; both are committed in one transaction. Events already in the ledger
+   * are skipped, so rescanning a block range never credits the same log twice.
+   */
+  public creditTaxEvents(
+    entries: readonly TaxLedgerEntry[],
+    applyCredits: (credited: readonly TaxLedgerEntry[]) => void
+  ): TaxLedgerEntry[] {
+    const db = this.requireDb();
+    const credited: TaxLedgerEntry[] = [];
+
+    const transaction = db.transaction(() => {
+      const insertEntry = db.prepare(
+        `
+          INSERT OR IGNORE INTO tax_ledger (
+            txHash,
+            logIndex,
+            blockNumber,
+            blockHash,
+            taxId,
+            recipient,
+            amountWei,
+            allocations,
+            creditedAtMs
+          )
+          VALUES (
+            @txHash,
+            @logIndex,
+            @blockNumber,
+            @blockHash,
+            @taxId,
+            @recipient,
+            @amountWei,
+            @allocations,
+            @creditedAtMs
+          )
+        `
+      );
+
+      const creditedAtMs = Date.now();
+      for (const entry of entries) {
+        const result = insertEntry.run({
+          txHash: entry.txHash,
+          logIndex: entry.logIndex,
+          blockNumber: entry.blockNumber,
+          blockHash: entry.blockHash,
+          taxId: entry.taxId,
+          recipient: entry.recipient,
+          amountWei: entry.amountWei.toString(),
+          allocations: serializeAllocations(entry.allocations),
+          creditedAtMs
+        });
+        if (result.changes > 0) {
+          credited.push(entry);
+        }
+      }
+
+      applyCredits(credited);
+      this.persistState();
+    });
+
+    this.runStateTransaction(transaction);
+    return credited;
+  }
+
+  /**
+   * Removes ledger entries above `blockNumber` and lets the caller reverse their credits,
+   * committing both together.
+   */
+  public rollbackTaxEventsAfter(
+    blockNumber: bigint,
+    applyRollback: (removed: readonly TaxLedgerEntry[]) => void
+  ): TaxLedgerEntry[] {
+    const db = this.requireDb();
+    let removed: TaxLedgerEntry[] = [];
+
+    const transaction = db.transaction(() => {
+      const rows = db
+        .prepare(
+          `
+            SELECT txHash, logIndex, blockNumber, blockHash, taxId, recipient, amountWei, allocations
+            FROM tax_ledger
+            WHERE blockNumber > ?
+            ORDER BY blockNumber ASC, logIndex ASC
+          `
+        )
+        .all(blockNumber) as TaxLedgerRow[];
+
+      removed = rows.map(mapTaxLedgerRow);
+      db.prepare("DELETE FROM tax_ledger WHERE blockNumber > ?").run(blockNumber);
+
+      applyRollback(removed);
+      this.persistState();
+    });
+
+    this.runStateTransaction(transaction);
+    return removed;
+  }
+
+  public listTaxEvents(fromBlock: bigint, toBlock: bigint): TaxLedgerEntry[] {
+    const db = this.requireDb();
+    const rows = db
+      .prepare(
+        `
+          SELECT txHash, logIndex, blockNumber, blockHash, taxId, recipient, amountWei, allocations
+          FROM tax_ledger
+          WHERE blockNumber BETWEEN ? AND ?
+          ORDER BY blockNumber ASC, logIndex ASC
+        `
+      )
+      .all(fromBlock, toBlock) as TaxLedgerRow[];
+    return rows.map(mapTaxLedgerRow);
+  }
+
+  /**
+   * Replaces every ledger entry in the inclusive block range with `entries` and lets the
+   * caller adjust the pools for the difference, all in one transaction.
+   */
+  public replaceTaxEventsInRange(
+    fromBlock: bigint,
+    toBlock: bigint,
+    entries: readonly TaxLedgerEntry[],
+    applyReplacement: (removed: readonly TaxLedgerEntry[], inserted: readonly TaxLedgerEntry[]) => void
+  ): void {
+    const db = this.requireDb();
+
+    const transaction = db.transaction(() => {
+      const removed = this.listTaxEvents(fromBlock, toBlock);
+      db.prepare("DELETE FROM tax_ledger WHERE blockNumber BETWEEN ? AND ?").run(fromBlock, toBlock);
+
+      const insertEntry = db.prepare(
+        `
+          INSERT OR REPLACE INTO tax_ledger (
+            txHash,
+            logIndex,
+            blockNumber,
+            blockHash,
+            taxId,
+            recipient,
+            amountWei,
+            allocations,
+            creditedAtMs
+          )
+          VALUES (
+            @txHash,
+            @logIndex,
+            @blockNumber,
+            @blockHash,
+            @taxId,
+            @recipient,
+            @amountWei,
+            @allocations,
+            @creditedAtMs
+          )
+        `
+      );
+
+      const creditedAtMs = Date.now();
+      for (const entry of entries) {
+        insertEntry.run({
+          txHash: entry.txHash,
+          logIndex: entry.logIndex,
+          blockNumber: entry.blockNumber,
+          blockHash: entry.blockHash,
+          taxId: entry.taxId,
+          recipient: entry.recipient,
+          amountWei: entry.amountWei.toString(),
+          allocations: serializeAllocations(entry.allocations),
+          creditedAtMs
+        });
+      }
+
+      applyReplacement(removed, entries);
+      this.persistState();
+    });
+
+    this.runStateTransaction(transaction);
+  }
+
+  /**
+   * Inserts revenue ledger entries for one source and lets the caller credit the newly
+   * inserted ones, committing both together. Entries already in the ledger are skipped.
+   */
+  public creditRevenueEntries(
+    entries: readonly RevenueLedgerEntry[],
+    applyCredits: (credited: readonly RevenueLedgerEntry[]) => void
+  ): RevenueLedgerEntry[] {
+    const db = this.requireDb();
+    const credited: RevenueLedgerEntry[] = [];
+
+    const transaction = db.transaction(() => {
+      const insertEntry = db.prepare(
+        `
+          INSERT OR IGNORE INTO revenue_ledger (
+            sourceId,
+            entryKey,
+            blockNumber,
+            blockHash,
+            txHash,
+            pool,
+            amountWei,
+            creditedAtMs
+          )
+          VALUES (
+            @sourceId,
+            @entryKey,
+            @blockNumber,
+            @blockHash,
+            @txHash,
+            @pool,
+            @amountWei,
+            @creditedAtMs
+          )
+        `
+      );
+
+      const creditedAtMs = Date.now();
+      for (const entry of entries) {
+        const result = insertEntry.run({
+          sourceId: entry.sourceId,
+          entryKey: entry.entryKey,
+          blockNumber: entry.blockNumber,
+          blockHash: entry.blockHash,
+          txHash: entry.txHash,
+          pool: entry.pool,
+          amountWei: entry.amountWei.toString(),
+          creditedAtMs
+        });
+        if (result.changes > 0) {
+          credited.push(entry);
+        }
+      }
+
+      applyCredits(credited);
+      this.persistState();
+    });
+
+    this.runStateTransaction(transaction);
+    return credited;
+  }
+
+  /**
+   * Removes one source's ledger entries above `blockNumber` and lets the caller reverse their
+   * credits, committing both together.
+   */
+  public rollbackRevenueAfter(
+    sourceId: string,
+    blockNumber: bigint,
+    applyRollback: (removed: readonly RevenueLedgerEntry[]) => void
+  ): RevenueLedgerEntry[] {
+    const db = this.requireDb();
+    let removed: RevenueLedgerEntry[] = [];
+
+    const transaction = db.transaction(() => {
+      const rows = db
+        .prepare(
+          `
+            SELECT sourceId, entryKey, blockNumber, blockHash, txHash, pool, amountWei
+            FROM revenue_ledger
+            WHERE sourceId = ? AND blockNumber > ?
+            ORDER BY blockNumber ASC, entryKey ASC
+          `
+        )
+        .all(sourceId, blockNumber) as RevenueLedgerRow[];
+
+      removed = rows.map(mapRevenueLedgerRow);
+      db.prepare("DELETE FROM revenue_ledger WHERE sourceId = ? AND blockNumber > ?").run(
+        sourceId,
+        blockNumber
+      );
+
+      applyRollback(removed);
+      this.persistState();
+    });
+
+    this.runStateTransaction(transaction);
+    return removed;
+  }
+
+  public recordTreasuryOutflow(outflow: TreasuryOutflowRecord): void {
+    this.insertTreasuryOutflow(this.requireDb(), outflow);
+  }
+
+  /** When the most recent treasury outflow with `reason` was recorded, if any. */
+  public getLastOutflowAtMs(reason: string): number | null {
+    const db = this.requireDb();
+    const row = db
+      .prepare("SELECT MAX(recordedAtMs) AS recordedAtMs FROM treasury_outflows WHERE reason = ?")
+      .get(reason) as { recordedAtMs: number | null } | undefined;
+    return row?.recordedAtMs ?? null;
+  }
+
+  /** Sums treasury outflows with `reason` recorded at or after `sinceMs`. */
+  public sumOutflowsSince(reason: string, sinceMs: number): bigint {
+    const db = this.requireDb();
+    const rows = db
+      .prepare("SELECT amountWei FROM treasury_outflows WHERE reason = ? AND recordedAtMs >= ?")
+      .all(reason, sinceMs) as { amountWei: string }[];
+    return rows.reduce((total, row) => total + BigInt(row.amountWei), 0n);
+  }
+
+  /** Stores a buyback schedule and its slices, returning the schedule id. */
+  public createBuybackSchedule(
+    totalWei: bigint,
+    slices: readonly { dueAtMs: number; amountWei: bigint }[],
+    createdAtMs: number
+  ): number {
+    const db = this.requireDb();
+    const transaction = db.transaction(() => {
+      const { lastInsertRowid } = db
+        .prepare("INSERT INTO buyback_schedules (totalWei, createdAtMs) VALUES (?, ?)")
+        .run(totalWei.toString(), createdAtMs);
+      const scheduleId = Number(lastInsertRowid);
+      const insertSlice = db.prepare(
+        `
+          INSERT INTO buyback_slices (scheduleId, dueAtMs, amountWei, spentWei)
+          VALUES (@scheduleId, @dueAtMs, @amountWei, '0')
+        `
+      );
+      for (const slice of slices) {
+        insertSlice.run({
+          scheduleId,
+          dueAtMs: slice.dueAtMs,
+          amountWei: slice.amountWei.toString()
+        });
+      }
+      return scheduleId;
+    });
+    return transaction();
+  }
+
+  /** Slices with budget left, earliest due first. */
+  public listOpenBuybackSlices(): BuybackSlice[] {
+    const db = this.requireDb();
+    const rows = db
+      .prepare(
+        `
+          SELECT id, scheduleId, dueAtMs, amountWei, spentWei
+          FROM buyback_slices
+          WHERE open = 1
+          ORDER BY dueAtMs ASC, id ASC
+        `
+      )
+      .all() as {
+      id: number;
+      scheduleId: number;
+      dueAtMs: number;
+      amountWei: string;
+      spentWei: string;
+    }[];
+    return rows.map((row) => ({
+      id: row.id,
+      scheduleId: row.scheduleId,
+      dueAtMs: row.dueAtMs,
+      amountWei: BigInt(row.amountWei),
+      spentWei: BigInt(row.spentWei)
+    }));
+  }
+
+  /** Writes back the amounts of slices changed by spending or trimming. */
+  public updateBuybackSlices(slices: readonly BuybackSlice[]): void {
+    const db = this.requireDb();
+    const transaction = db.transaction(() => this.writeBuybackSlices(db, slices));
+    transaction();
+  }
+
+  /** Inserts a buyback job in the `planned` step. */
+  public createBuybackJob(
+    plan: Pick<
+      BuybackJob,
+      "amountInWei" | "minAmountOut" | "expectedOut" | "tokenBalanceBeforeSwap"
+    >
+  ): BuybackJob {
+    const db = this.requireDb();
+    const nowMs = Date.now();
+    const { lastInsertRowid } = db
+      .prepare(
+        `
+          INSERT INTO buyback_jobs (
+            status,
+            amountInWei,
+            minAmountOut,
+            expectedOut,
+            tokenBalanceBeforeSwap,
+            createdAtMs,
+            updatedAtMs
+          )
+          VALUES (
+            'planned',
+            @amountInWei,
+            @minAmountOut,
+            @expectedOut,
+            @tokenBalanceBeforeSwap,
+            @nowMs,
+            @nowMs
+          )
+        `
+      )
+      .run({
+        amountInWei: plan.amountInWei.toString(),
+        minAmountOut: plan.minAmountOut.toString(),
+        expectedOut: plan.expectedOut.toString(),
+        tokenBalanceBeforeSwap: plan.tokenBalanceBeforeSwap.toString(),
+        nowMs
+      });
+    return {
+      id: Number(lastInsertRowid),
+      status: "planned",
+      ...plan,
+      swapTx: null,
+      purchasedAmount: null,
+      sinkPlan: null,
+      sinkLegsDone: 0,
+      sinkReverts: 0,
+      tokenBalanceBeforeBurn: null,
+      burnTx: null,
+      error: null,
+      createdAtMs: nowMs,
+      updatedAtMs: nowMs
+    };
+  }
+
+  /** The oldest buyback job that has not reached `burned` or `failed`. */
+  public getActiveBuybackJob(): BuybackJob | null {
+    const db = this.requireDb();
+    const row = db
+      .prepare(
+        `
+          SELECT *
+          FROM buyback_jobs
+          WHERE status NOT IN ('burned', 'failed')
+          ORDER BY id ASC
+          LIMIT 1
+        `
+      )
+      .get() as BuybackJobRow | undefined;
+    return row ? mapBuybackJobRow(row) : null;
+  }
+
+  /**
+   * Stores a buyback job's new step together with the in-memory state (already updated by the
+   * caller) and the outflow and slice charges of that step, in a single transaction.
+   */
+  public saveBuybackJob(
+    job: BuybackJob,
+    effects: { outflow?: TreasuryOutflowRecord; slices?: readonly BuybackSlice[] } = {}
+  ): BuybackJob {
+    const db = this.requireDb();
+    const saved: BuybackJob = { ...job, updatedAtMs: Date.now() };
+    const transaction = db.transaction(() => {
+      db.prepare(
+        `
+          UPDATE buyback_jobs
+          SET
+            status = @status,
+            swapTxHash = @swapTxHash,
+            swapRawTx = @swapRawTx,
+            swapNonce = @swapNonce,
+            purchasedAmount = @purchasedAmount,
+            sinkPlan = @sinkPlan,
+            sinkLegsDone = @sinkLegsDone,
+            sinkReverts = @sinkReverts,
+            tokenBalanceBeforeBurn = @tokenBalanceBeforeBurn,
+            burnTxHash = @burnTxHash,
+            burnRawTx = @burnRawTx,
+            burnNonce = @burnNonce,
+            error = @error,
+            updatedAtMs = @updatedAtMs
+          WHERE id = @id
+        `
+      ).run({
+        id: saved.id,
+        status: saved.status,
+        swapTxHash: saved.swapTx?.hash ?? null,
+        swapRawTx: saved.swapTx?.serialized ?? null,
+        swapNonce: saved.swapTx?.nonce ?? null,
+        purchasedAmount: saved.purchasedAmount?.toString() ?? null,
+        sinkPlan: saved.sinkPlan ? stringifyForStorage(saved.sinkPlan) : null,
+        sinkLegsDone: saved.sinkLegsDone,
+        sinkReverts: saved.sinkReverts,
+        tokenBalanceBeforeBurn: saved.tokenBalanceBeforeBurn?.toString() ?? null,
+        burnTxHash: saved.burnTx?.hash ?? null,
+        burnRawTx: saved.burnTx?.serialized ?? null,
+        burnNonce: saved.burnTx?.nonce ?? null,
+        error: saved.error,
+        updatedAtMs: saved.updatedAtMs
+      });
+      if (effects.outflow) {
+        this.insertTreasuryOutflow(db, effects.outflow);
+      }
+      if (effects.slices) {
+        this.writeBuybackSlices(db, effects.slices);
+      }
+      this.persistState();
+    });
+    this.runStateTransaction(transaction);
+    return saved;
+  }
+
+  /** Tokens sold through one of our listings at or after `sinceMs`. */
+  public getRecentlySoldTokens(sinceMs: number): { collection: Address; tokenId: string }[] {
+    const db = this.requireDb();
+    const rows = db
+      .prepare(
+        `
+          SELECT DISTINCT collection, tokenId
+          FROM listing_fills
+          WHERE recordedAtMs >= ?
+        `
+      )
+      .all(sinceMs) as { collection: string; tokenId: string }[];
+    return rows.map((row) => ({ collection: row.collection as Address, tokenId: row.tokenId }));
+  }
+
+  /**
+   * Sums the native treasury movements the bot already knows about in an inclusive block
+   * range: credited tax and sale proceeds coming in, and the bot's own spending going out.
+   */
+  public sumKnownNativeMovements(
+    fromBlock: bigint,
+    toBlock: bigint
+  ): { inflowWei: bigint; outflowWei: bigint } {
+    const db = this.requireDb();
+    const sumAmounts = (rows: { amountWei: string }[]): bigint =>
+      rows.reduce((total, row) => total + BigInt(row.amountWei), 0n);
+
+    const taxRows = db
+      .prepare("SELECT amountWei FROM tax_ledger WHERE blockNumber BETWEEN ? AND ?")
+      .all(fromBlock, toBlock) as { amountWei: string }[];
+    const fillRows = db
+      .prepare(
+        `
+          SELECT proceedsWei AS amountWei
+          FROM listing_fills
+          WHERE CAST(blockNumber AS INTEGER) BETWEEN ? AND ?
+        `
+      )
+      .all(fromBlock, toBlock) as { amountWei: string }[];
+    const outflowRows = db
+      .prepare("SELECT amountWei FROM treasury_outflows WHERE blockNumber BETWEEN ? AND ?")
+      .all(fromBlock, toBlock) as { amountWei: string }[];
+
+    return {
+      inflowWei: sumAmounts(taxRows) + sumAmounts(fillRows),
+      outflowWei: sumAmounts(outflowRows)
+    };
+  }
+
   public async save(): Promise<void> {
     if (!this.state) {
       throw new Error("State has not been loaded");
@@ -87,6 +1078,92 @@ export class StateStore {
     this.state.activeListings = updater(this.state.activeListings);
   }
 
+  /**
+   * Runs a transaction that also mutates the in-memory state. If it fails, the database is
+   * rolled back, so the in-memory state is reloaded to match it.
+   */
+  private runStateTransaction(transaction: () => void): void {
+    try {
+      transaction();
+    } catch (error) {
+      this.state = this.readStateFromDatabase() ?? this.state;
+      throw error;
+    }
+  }
+
+  private insertTreasuryOutflow(db: Database.Database, outflow: TreasuryOutflowRecord): void {
+    db.prepare(
+      `
+        INSERT OR IGNORE INTO treasury_outflows (txHash, blockNumber, amountWei, reason, recordedAtMs)
+        VALUES (@txHash, @blockNumber, @amountWei, @reason, @recordedAtMs)
+      `
+    ).run({
+      txHash: outflow.txHash,
+      blockNumber: outflow.blockNumber,
+      amountWei: outflow.amountWei.toString(),
+      reason: outflow.reason,
+      recordedAtMs: Date.now()
+    });
+  }
+
+  private writeBuybackSlices(db: Database.Database, slices: readonly BuybackSlice[]): void {
+    const update = db.prepare(
+      `
+        UPDATE buyback_slices
+        SET amountWei = @amountWei, spentWei = @spentWei, open = @open
+        WHERE id = @id
+      `
+    );
+    for (const slice of slices) {
+      update.run({
+        id: slice.id,
+        amountWei: slice.amountWei.toString(),
+        spentWei: slice.spentWei.toString(),
+        open: slice.spentWei < slice.amountWei ? 1 : 0
+      });
+    }
+  }
+
+  private copyTablesFrom(sourceDbPath: string): void {
+    const db = this.requireDb();
+    db.prepare("ATTACH DATABASE ? AS source").run(sourceDbPath);
+    try {
+      const tables = db
+        .prepare(
+          `
+            SELECT name FROM main.sqlite_master
+            WHERE type = 'table' AND name NOT LIKE 'sqlite_%' AND name <> 'shadow_actions'
+          `
+        )
+        .all() as { name: string }[];
+
+      db.transaction(() => {
+        for (const { name } of tables) {
+          const sourceColumns = new Set(listColumns(db, "source", name));
+          const columns = listColumns(db, "main", name)
+            .filter((column) => sourceColumns.has(column))
+            .join(", ");
+
+          db.prepare(`DELETE FROM main.${name}`).run();
+          if (columns) {
+            db.prepare(
+              `INSERT INTO main.${name} (${columns}) SELECT ${columns} FROM source.${name}`
+            ).run();
+          }
+        }
+      })();
+    } finally {
+      db.prepare("DETACH DATABASE source").run();
+    }
+  }
+
+  private requireDb(): Database.Database {
+    if (!this.db) {
+      throw new Error("Database connection has not been initialized");
+    }
+    return this.db;
+  }
+
   private async ensureDirectory(): Promise<void> {
     const directory = dirname(this.dbPath);
     if (!existsSync(directory)) {
@@ -105,7 +1182,10 @@ export class StateStore {
         version INTEGER NOT NULL,
         commissionPoolWei TEXT NOT NULL,
         salePoolWei TEXT NOT NULL,
+        reservePoolWei TEXT NOT NULL DEFAULT '0',
+        operationsPoolWei TEXT NOT NULL DEFAULT '0',
         lastTaxBlock TEXT NOT NULL,
+        lastFillBlock TEXT,
         pendingBurnAmount TEXT NOT NULL DEFAULT '0',
         pendingBurnCostWei TEXT NOT NULL DEFAULT '0'
       );
@@ -118,12 +1198,205 @@ export class StateStore {
         listedAtMs INTEGER NOT NULL,
         tokenStandard TEXT NOT NULL DEFAULT 'erc721',
         listedQuantity TEXT NOT NULL DEFAULT '1',
-        expectedPostSaleBalance TEXT
+        expectedPostSaleBalance TEXT,
+        postedToOpenSea INTEGER NOT NULL DEFAULT 0,
+        validatedOnchain INTEGER NOT NULL DEFAULT 1,
+        protocolAddress TEXT NOT NULL DEFAULT '${LEGACY_LISTING_PROTOCOL_ADDRESS}',
+        filledQuantity TEXT NOT NULL DEFAULT '0',
+        endTime INTEGER,
+        renewalCount INTEGER NOT NULL DEFAULT 0,
+        minProceedsWei TEXT,
+        pricingInputs TEXT
+      );
+
+      CREATE TABLE IF NOT EXISTS listing_orders (
+        orderHash TEXT PRIMARY KEY,
+        protocolAddress TEXT NOT NULL,
+        components TEXT NOT NULL,
+        signature TEXT NOT NULL,
+        counter TEXT NOT NULL,
+        salt TEXT NOT NULL,
+        startTime TEXT NOT NULL,
+        endTime TEXT NOT NULL,
+        createdAtMs INTEGER NOT NULL
+      );
+
+      CREATE TABLE IF NOT EXISTS unlisted_inventory (
+        collection TEXT NOT NULL,
+        tokenId TEXT NOT NULL,
+        tokenStandard TEXT NOT NULL,
+        quantity TEXT NOT NULL,
+        reason TEXT NOT NULL,
+        sinceMs INTEGER NOT NULL,
+        PRIMARY KEY (collection, tokenId)
+      );
+
+      CREATE TABLE IF NOT EXISTS listing_fills (
+        txHash TEXT NOT NULL,
+        logIndex INTEGER NOT NULL,
+        orderHash TEXT NOT NULL,
+        blockNumber TEXT NOT NULL,
+        taker TEXT NOT NULL,
+        collection TEXT NOT NULL,
+        tokenId TEXT NOT NULL,
+        quantity TEXT NOT NULL,
+        proceedsWei TEXT NOT NULL,
+        expectedProceedsWei TEXT,
+        recordedAtMs INTEGER NOT NULL,
+        PRIMARY KEY (txHash, logIndex)
+      );
+
+      CREATE TABLE IF NOT EXISTS listing_anomalies (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        orderHash TEXT NOT NULL,
+        collection TEXT NOT NULL,
+        tokenId TEXT NOT NULL,
+        blockNumber TEXT NOT NULL,
+        reason TEXT NOT NULL,
+        detectedAtMs INTEGER NOT NULL
+      );
+
+      CREATE TABLE IF NOT EXISTS blocked_orders (
+        orderHash TEXT PRIMARY KEY,
+        issues TEXT NOT NULL,
+        blockedAtMs INTEGER NOT NULL
+      );
+
+      CREATE TABLE IF NOT EXISTS tax_checkpoints (
+        blockNumber TEXT PRIMARY KEY,
+        fromBlock TEXT NOT NULL,
+        blockHash TEXT NOT NULL
+      );
+
+      CREATE TABLE IF NOT EXISTS fill_checkpoints (
+        blockNumber TEXT PRIMARY KEY,
+        fromBlock TEXT NOT NULL,
+        blockHash TEXT NOT NULL
+      );
+
+      CREATE TABLE IF NOT EXISTS tax_ledger (
+        txHash TEXT NOT NULL,
+        logIndex INTEGER NOT NULL,
+        blockNumber INTEGER NOT NULL,
+        blockHash TEXT NOT NULL,
+        taxId INTEGER NOT NULL,
+        recipient TEXT NOT NULL,
+        amountWei TEXT NOT NULL,
+        allocations TEXT,
+        creditedAtMs INTEGER NOT NULL,
+        PRIMARY KEY (txHash, logIndex)
+      );
+
+      CREATE INDEX IF NOT EXISTS tax_ledger_block ON tax_ledger (blockNumber);
+
+      CREATE TABLE IF NOT EXISTS revenue_cursors (
+        sourceId TEXT PRIMARY KEY,
+        lastBlock TEXT NOT NULL,
+        creditedWei TEXT NOT NULL DEFAULT '0'
+      );
+
+      CREATE TABLE IF NOT EXISTS revenue_checkpoints (
+        sourceId TEXT NOT NULL,
+        blockNumber TEXT NOT NULL,
+        fromBlock TEXT NOT NULL,
+        blockHash TEXT NOT NULL,
+        PRIMARY KEY (sourceId, blockNumber)
+      );
+
+      CREATE TABLE IF NOT EXISTS revenue_ledger (
+        sourceId TEXT NOT NULL,
+        entryKey TEXT NOT NULL,
+        blockNumber INTEGER NOT NULL,
+        blockHash TEXT NOT NULL,
+        txHash TEXT,
+        pool TEXT NOT NULL,
+        amountWei TEXT NOT NULL,
+        creditedAtMs INTEGER NOT NULL,
+        PRIMARY KEY (sourceId, entryKey)
+      );
+
+      CREATE INDEX IF NOT EXISTS revenue_ledger_block ON revenue_ledger (sourceId, blockNumber);
+
+      CREATE TABLE IF NOT EXISTS treasury_outflows (
+        txHash TEXT PRIMARY KEY,
+        blockNumber INTEGER NOT NULL,
+        amountWei TEXT NOT NULL,
+        reason TEXT NOT NULL,
+        recordedAtMs INTEGER NOT NULL
+      );
+
+      CREATE TABLE IF NOT EXISTS buyback_schedules (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        totalWei TEXT NOT NULL,
+        createdAtMs INTEGER NOT NULL
+      );
+
+      CREATE TABLE IF NOT EXISTS buyback_slices (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        scheduleId INTEGER NOT NULL,
+        dueAtMs INTEGER NOT NULL,
+        amountWei TEXT NOT NULL,
+        spentWei TEXT NOT NULL,
+        open INTEGER NOT NULL DEFAULT 1
+      );
+
+      CREATE INDEX IF NOT EXISTS buyback_slices_open ON buyback_slices (open, dueAtMs);
+
+      CREATE TABLE IF NOT EXISTS buyback_jobs (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        status TEXT NOT NULL,
+        amountInWei TEXT NOT NULL,
+        minAmountOut TEXT NOT NULL,
+        expectedOut TEXT,
+        tokenBalanceBeforeSwap TEXT NOT NULL,
+        swapTxHash TEXT,
+        swapRawTx TEXT,
+        swapNonce INTEGER,
+        purchasedAmount TEXT,
+        sinkPlan TEXT,
+        sinkLegsDone INTEGER NOT NULL DEFAULT 0,
+        sinkReverts INTEGER NOT NULL DEFAULT 0,
+        tokenBalanceBeforeBurn TEXT,
+        burnTxHash TEXT,
+        burnRawTx TEXT,
+        burnNonce INTEGER,
+        error TEXT,
+        createdAtMs INTEGER NOT NULL,
+        updatedAtMs INTEGER NOT NULL
+      );
+
+      CREATE TABLE IF NOT EXISTS tax_routes (
+        taxId INTEGER NOT NULL,
+        pool TEXT NOT NULL,
+        bps INTEGER NOT NULL,
+        PRIMARY KEY (taxId, pool)
+      );
+
+      CREATE TABLE IF NOT EXISTS tax_streams (
+        taxId INTEGER NOT NULL,
+        pool TEXT NOT NULL,
+        creditedWei TEXT NOT NULL,
+        PRIMARY KEY (taxId, pool)
+      );
+
+      CREATE TABLE IF NOT EXISTS shadow_actions (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        recordedAtMs INTEGER NOT NULL,
+        kind TEXT NOT NULL,
+        target TEXT,
+        valueWei TEXT NOT NULL,
+        calldata TEXT,
+        decoded TEXT,
+        simulation TEXT,
+        txHash TEXT
       );
     `);
 
     this.ensureStateColumns();
     this.ensureListingColumns();
+    this.ensureListingFillColumns();
+    this.ensureTaxLedgerColumns();
+    this.ensureBuybackJobColumns();
   }
 
   private readStateFromDatabase(): BotState | null {
@@ -137,7 +1410,10 @@ export class StateStore {
           version,
           commissionPoolWei,
           salePoolWei,
+          reservePoolWei,
+          operationsPoolWei,
           lastTaxBlock,
+          lastFillBlock,
           pendingBurnAmount,
           pendingBurnCostWei
         FROM state WHERE id = 1`
@@ -155,29 +1431,126 @@ export class StateStore {
       .prepare(
         `
           SELECT
-            orderHash,
+            listings.orderHash,
+            listings.protocolAddress,
             collection,
             tokenId,
             expectedProceedsWei,
             listedAtMs,
             tokenStandard,
             listedQuantity,
-            expectedPostSaleBalance
+            expectedPostSaleBalance,
+            postedToOpenSea,
+            validatedOnchain,
+            filledQuantity,
+            COALESCE(listings.endTime, CAST(listing_orders.endTime AS INTEGER)) AS endTime,
+            renewalCount,
+            minProceedsWei,
+            pricingInputs
           FROM listings
+          LEFT JOIN listing_orders ON lower(listing_orders.orderHash) = lower(listings.orderHash)
           ORDER BY listedAtMs ASC
         `
       )
       .all() as ListingRow[];
 
+    const inventory = this.db
+      .prepare(
+        `
+          SELECT collection, tokenId, tokenStandard, quantity, reason, sinceMs
+          FROM unlisted_inventory
+          ORDER BY sinceMs ASC
+        `
+      )
+      .all() as InventoryRow[];
+
+    const checkpoints = this.db
+      .prepare(
+        `
+          SELECT fromBlock, blockNumber, blockHash
+          FROM tax_checkpoints
+          ORDER BY CAST(blockNumber AS INTEGER) ASC
+        `
+      )
+      .all() as ScanCheckpointRow[];
+
+    const fillCheckpoints = this.db
+      .prepare(
+        `
+          SELECT fromBlock, blockNumber, blockHash
+          FROM fill_checkpoints
+          ORDER BY CAST(blockNumber AS INTEGER) ASC
+        `
+      )
+      .all() as ScanCheckpointRow[];
+
+    const routeRows = this.db
+      .prepare("SELECT taxId, pool, bps FROM tax_routes ORDER BY taxId ASC, pool ASC")
+      .all() as TaxRouteRow[];
+
+    const streamRows = this.db
+      .prepare("SELECT taxId, pool, creditedWei FROM tax_streams ORDER BY taxId ASC, pool ASC")
+      .all() as TaxStreamRow[];
+
+    const cursorRows = this.db
+      .prepare("SELECT sourceId, lastBlock, creditedWei FROM revenue_cursors ORDER BY sourceId ASC")
+      .all() as RevenueCursorRow[];
+
+    const revenueCheckpointRows = this.db
+      .prepare(
+        `
+          SELECT sourceId, fromBlock, blockNumber, blockHash
+          FROM revenue_checkpoints
+          ORDER BY sourceId ASC, CAST(blockNumber AS INTEGER) ASC
+        `
+      )
+      .all() as RevenueCheckpointRow[];
+
+    const lastTaxBlock = BigInt(stateRow.lastTaxBlock ?? "0");
+
     return {
       version: normalizedVersion,
       commissionPoolWei: BigInt(stateRow.commissionPoolWei),
       salePoolWei: BigInt(stateRow.salePoolWei),
+      reservePoolWei: BigInt(stateRow.reservePoolWei ?? "0"),
+      operationsPoolWei: BigInt(stateRow.operationsPoolWei ?? "0"),
       pendingBurnAmount: BigInt(stateRow.pendingBurnAmount ?? "0"),
       pendingBurnCostWei: BigInt(stateRow.pendingBurnCostWei ?? "0"),
-      lastTaxBlock: BigInt(stateRow.lastTaxBlock ?? "0"),
+      lastTaxBlock,
+      // Databases written before fill tracking have no fill cursor; the tax cursor is the
+      // closest known recent block to resume scanning from.
+      lastFillBlock:
+        stateRow.lastFillBlock !== null && stateRow.lastFillBlock !== undefined
+          ? BigInt(stateRow.lastFillBlock)
+          : lastTaxBlock,
+      taxCheckpoints: checkpoints.map(mapCheckpointRow),
+      fillCheckpoints: fillCheckpoints.map(mapCheckpointRow),
+      taxRoutes: groupTaxRoutes(routeRows),
+      taxStreams: streamRows.map((row) => ({
+        taxId: row.taxId,
+        pool: row.pool as TaxPool,
+        creditedWei: BigInt(row.creditedWei)
+      })),
+      unlistedInventory: inventory.map((row) => ({
+        collection: row.collection as UnlistedInventoryItem["collection"],
+        tokenId: row.tokenId,
+        tokenStandard: row.tokenStandard === "erc1155" ? "erc1155" : "erc721",
+        quantity: BigInt(row.quantity),
+        reason: row.reason,
+        sinceMs: row.sinceMs
+      })),
+      revenueCursors: cursorRows.map((row) => ({
+        sourceId: row.sourceId,
+        lastBlock: BigInt(row.lastBlock),
+        creditedWei: BigInt(row.creditedWei),
+        checkpoints: revenueCheckpointRows
+          .filter((checkpoint) => checkpoint.sourceId === row.sourceId)
+          .map(mapCheckpointRow)
+      })),
       activeListings: listings.map((row) => ({
         orderHash: row.orderHash,
+        protocolAddress: (row.protocolAddress ??
+          LEGACY_LISTING_PROTOCOL_ADDRESS) as ActiveListingState["protocolAddress"],
         collection: row.collection as ActiveListingState["collection"],
         tokenId: row.tokenId,
         expectedProceedsWei: BigInt(row.expectedProceedsWei),
@@ -187,7 +1560,17 @@ export class StateStore {
         expectedPostSaleBalance:
           row.expectedPostSaleBalance !== null && row.expectedPostSaleBalance !== undefined
             ? BigInt(row.expectedPostSaleBalance)
-            : null
+            : null,
+        postedToOpenSea: (row.postedToOpenSea ?? 0) === 1,
+        validatedOnchain: (row.validatedOnchain ?? 1) === 1,
+        filledQuantity: BigInt(row.filledQuantity ?? "0"),
+        endTime: row.endTime ?? null,
+        renewalCount: row.renewalCount ?? 0,
+        minProceedsWei:
+          row.minProceedsWei !== null && row.minProceedsWei !== undefined
+            ? BigInt(row.minProceedsWei)
+            : null,
+        pricingInputs: row.pricingInputs ? parsePricingInputs(row.pricingInputs) : null
       }))
     };
   }
@@ -209,7 +1592,10 @@ export class StateStore {
             version,
             commissionPoolWei,
             salePoolWei,
+            reservePoolWei,
+            operationsPoolWei,
             lastTaxBlock,
+            lastFillBlock,
             pendingBurnAmount,
             pendingBurnCostWei
           )
@@ -218,7 +1604,10 @@ export class StateStore {
             @version,
             @commissionPoolWei,
             @salePoolWei,
+            @reservePoolWei,
+            @operationsPoolWei,
             @lastTaxBlock,
+            @lastFillBlock,
             @pendingBurnAmount,
             @pendingBurnCostWei
           )
@@ -226,7 +1615,10 @@ export class StateStore {
             version = excluded.version,
             commissionPoolWei = excluded.commissionPoolWei,
             salePoolWei = excluded.salePoolWei,
+            reservePoolWei = excluded.reservePoolWei,
+            operationsPoolWei = excluded.operationsPoolWei,
             lastTaxBlock = excluded.lastTaxBlock,
+            lastFillBlock = excluded.lastFillBlock,
             pendingBurnAmount = excluded.pendingBurnAmount,
             pendingBurnCostWei = excluded.pendingBurnCostWei
         `
@@ -236,11 +1628,123 @@ export class StateStore {
         version: STATE_VERSION,
         commissionPoolWei: state.commissionPoolWei.toString(),
         salePoolWei: state.salePoolWei.toString(),
+        reservePoolWei: state.reservePoolWei.toString(),
+        operationsPoolWei: state.operationsPoolWei.toString(),
         lastTaxBlock: state.lastTaxBlock.toString(),
+        lastFillBlock: state.lastFillBlock.toString(),
         pendingBurnAmount: state.pendingBurnAmount.toString(),
         pendingBurnCostWei: state.pendingBurnCostWei.toString()
       });
 
+      db.prepare("DELETE FROM tax_checkpoints").run();
+
+      const insertCheckpoint = db.prepare(
+        `
+          INSERT INTO tax_checkpoints (blockNumber, fromBlock, blockHash)
+          VALUES (@blockNumber, @fromBlock, @blockHash)
+        `
+      );
+      for (const checkpoint of state.taxCheckpoints) {
+        insertCheckpoint.run({
+          blockNumber: checkpoint.blockNumber.toString(),
+          fromBlock: checkpoint.fromBlock.toString(),
+          blockHash: checkpoint.blockHash
+        });
+      }
+
+      db.prepare("DELETE FROM fill_checkpoints").run();
+
+      const insertFillCheckpoint = db.prepare(
+        `
+          INSERT INTO fill_checkpoints (blockNumber, fromBlock, blockHash)
+          VALUES (@blockNumber, @fromBlock, @blockHash)
+        `
+      );
+      for (const checkpoint of state.fillCheckpoints) {
+        insertFillCheckpoint.run({
+          blockNumber: checkpoint.blockNumber.toString(),
+          fromBlock: checkpoint.fromBlock.toString(),
+          blockHash: checkpoint.blockHash
+        });
+      }
+
+      db.prepare("DELETE FROM tax_routes").run();
+
+      const insertRoute = db.prepare(
+        "INSERT INTO tax_routes (taxId, pool, bps) VALUES (@taxId, @pool, @bps)"
+      );
+      for (const route of state.taxRoutes) {
+        for (const share of route.shares) {
+          insertRoute.run({ taxId: route.taxId, pool: share.pool, bps: share.bps });
+        }
+      }
+
+      db.prepare("DELETE FROM tax_streams").run();
+
+      const insertStream = db.prepare(
+        `
+          INSERT INTO tax_streams (taxId, pool, creditedWei)
+          VALUES (@taxId, @pool, @creditedWei)
+        `
+      );
+      for (const stream of state.taxStreams) {
+        insertStream.run({
+          taxId: stream.taxId,
+          pool: stream.pool,
+          creditedWei: stream.creditedWei.toString()
+        });
+      }
+
+      db.prepare("DELETE FROM unlisted_inventory").run();
+
+      const insertInventory = db.prepare(
+        `
+          INSERT INTO unlisted_inventory (collection, tokenId, tokenStandard, quantity, reason, sinceMs)
+          VALUES (@collection, @tokenId, @tokenStandard, @quantity, @reason, @sinceMs)
+        `
+      );
+      for (const item of state.unlistedInventory) {
+        insertInventory.run({
+          collection: item.collection,
+          tokenId: item.tokenId,
+          tokenStandard: item.tokenStandard,
+          quantity: item.quantity.toString(),
+          reason: item.reason,
+          sinceMs: item.sinceMs
+        });
+      }
+
+      db.prepare("DELETE FROM revenue_cursors").run();
+      db.prepare("DELETE FROM revenue_checkpoints").run();
+
+      const insertCursor = db.prepare(
+        `
+          INSERT INTO revenue_cursors (sourceId, lastBlock, creditedWei)
+          VALUES (@sourceId, @lastBlock, @creditedWei)
+        `
+      );
+      const insertRevenueCheckpoint = db.prepare(
+        `
+          INSERT INTO revenue_checkpoints (sourceId, blockNumber, fromBlock, blockHash)
+          VALUES (@sourceId, @blockNumber, @fromBlock, @blockHash)
+        `
+      );
+      for (const cursor of state.revenueCursors) {
+        insertCursor.run({
+          sourceId: cursor.sourceId,
+          lastBlock: cursor.lastBlock.toString(),
+          creditedWei: cursor.creditedWei.toString()
+        });
+        for (const checkpoint of cursor.checkpoints) {
+          insertRevenueCheckpoint.run({
+            sourceId: cursor.sourceId,
+            blockNumber: checkpoint.blockNumber.toString(),
+            fromBlock: checkpoint.fromBlock.toString(),
+            blockHash: checkpoint.blockHash
+          });
+        }
+      }
+
       db.prepare("DELETE FROM listings").run();
 
       if (state.activeListings.length > 0) {
@@ -248,23 +1752,39 @@ export class StateStore {
           `
             INSERT INTO listings (
               orderHash,
+              protocolAddress,
               collection,
               tokenId,
               expectedProceedsWei,
               listedAtMs,
               tokenStandard,
               listedQuantity,
-              expectedPostSaleBalance
+              expectedPostSaleBalance,
+              postedToOpenSea,
+              validatedOnchain,
+              filledQuantity,
+              endTime,
+              renewalCount,
+              minProceedsWei,
+              pricingInputs
             )
             VALUES (
               @orderHash,
+              @protocolAddress,
               @collection,
               @tokenId,
               @expectedProceedsWei,
               @listedAtMs,
               @tokenStandard,
               @listedQuantity,
-              @expectedPostSaleBalance
+              @expectedPostSaleBalance,
+              @postedToOpenSea,
+              @validatedOnchain,
+              @filledQuantity,
+              @endTime,
+              @renewalCount,
+              @minProceedsWei,
+              @pricingInputs
             )
           `
         );
@@ -272,6 +1792,7 @@ export class StateStore {
         for (const listing of state.activeListings) {
           insertListing.run({
             orderHash: listing.orderHash,
+            protocolAddress: listing.protocolAddress,
             collection: listing.collection,
             tokenId: listing.tokenId,
             expectedProceedsWei: listing.expectedProceedsWei.toString(),
@@ -281,7 +1802,15 @@ export class StateStore {
             expectedPostSaleBalance:
               listing.expectedPostSaleBalance !== null
                 ? listing.expectedPostSaleBalance.toString()
-                : null
+                : null,
+            postedToOpenSea: listing.postedToOpenSea ? 1 : 0,
+            validatedOnchain: listing.validatedOnchain ? 1 : 0,
+            filledQuantity: listing.filledQuantity.toString(),
+            endTime: listing.endTime,
+            renewalCount: listing.renewalCount,
+            minProceedsWei:
+              listing.minProceedsWei !== null ? listing.minProceedsWei.toString() : null,
+            pricingInputs: listing.pricingInputs ? stringifyForStorage(listing.pricingInputs) : null
           });
         }
       }
@@ -309,6 +1838,32 @@ export class StateStore {
     if (!existing.has("expectedPostSaleBalance")) {
       this.db.exec("ALTER TABLE listings ADD COLUMN expectedPostSaleBalance TEXT");
     }
+    if (!existing.has("postedToOpenSea")) {
+      this.db.exec("ALTER TABLE listings ADD COLUMN postedToOpenSea INTEGER NOT NULL DEFAULT 0");
+    }
+    if (!existing.has("validatedOnchain")) {
+      this.db.exec("ALTER TABLE listings ADD COLUMN validatedOnchain INTEGER NOT NULL DEFAULT 1");
+    }
+    if (!existing.has("protocolAddress")) {
+      this.db.exec(
+        `ALTER TABLE listings ADD COLUMN protocolAddress TEXT NOT NULL DEFAULT '${LEGACY_LISTING_PROTOCOL_ADDRESS}'`
+      );
+    }
+    if (!existing.has("filledQuantity")) {
+      this.db.exec("ALTER TABLE listings ADD COLUMN filledQuantity TEXT NOT NULL DEFAULT '0'");
+    }
+    if (!existing.has("endTime")) {
+      this.db.exec("ALTER TABLE listings ADD COLUMN endTime INTEGER");
+    }
+    if (!existing.has("renewalCount")) {
+      this.db.exec("ALTER TABLE listings ADD COLUMN renewalCount INTEGER NOT NULL DEFAULT 0");
+    }
+    if (!existing.has("minProceedsWei")) {
+      this.db.exec("ALTER TABLE listings ADD COLUMN minProceedsWei TEXT");
+    }
+    if (!existing.has("pricingInputs")) {
+      this.db.exec("ALTER TABLE listings ADD COLUMN pricingInputs TEXT");
+    }
   }
 
   private ensureStateColumns(): void {
@@ -325,6 +1880,60 @@ export class StateStore {
     if (!existing.has("pendingBurnCostWei")) {
       this.db.exec("ALTER TABLE state ADD COLUMN pendingBurnCostWei TEXT NOT NULL DEFAULT '0'");
     }
+    if (!existing.has("lastFillBlock")) {
+      this.db.exec("ALTER TABLE state ADD COLUMN lastFillBlock TEXT");
+    }
+    if (!existing.has("reservePoolWei")) {
+      this.db.exec("ALTER TABLE state ADD COLUMN reservePoolWei TEXT NOT NULL DEFAULT '0'");
+    }
+    if (!existing.has("operationsPoolWei")) {
+      this.db.exec("ALTER TABLE state ADD COLUMN operationsPoolWei TEXT NOT NULL DEFAULT '0'");
+    }
+  }
+
+  private ensureListingFillColumns(): void {
+    if (!this.db) {
+      throw new Error("Database connection has not been initialized");
+    }
+
+    const columns = this.db.prepare("PRAGMA table_info(listing_fills)").all() as { name: string }[];
+    const existing = new Set(columns.map((column) => column.name));
+
+    if (!existing.has("expectedProceedsWei")) {
+      this.db.exec("ALTER TABLE listing_fills ADD COLUMN expectedProceedsWei TEXT");
+    }
+  }
+
+  private ensureBuybackJobColumns(): void {
+    const db = this.requireDb();
+    const columns = db.prepare("PRAGMA table_info(buyback_jobs)").all() as { name: string }[];
+    const existing = new Set(columns.map((column) => column.name));
+
+    if (!existing.has("sinkPlan")) {
+      db.exec("ALTER TABLE buyback_jobs ADD COLUMN sinkPlan TEXT");
+    }
+    if (!existing.has("sinkLegsDone")) {
+      db.exec("ALTER TABLE buyback_jobs ADD COLUMN sinkLegsDone INTEGER NOT NULL DEFAULT 0");
+    }
+    if (!existing.has("sinkReverts")) {
+      db.exec("ALTER TABLE buyback_jobs ADD COLUMN sinkReverts INTEGER NOT NULL DEFAULT 0");
+    }
+    if (!existing.has("expectedOut")) {
+      db.exec("ALTER TABLE buyback_jobs ADD COLUMN expectedOut TEXT");
+    }
+  }
+
+  private ensureTaxLedgerColumns(): void {
+    if (!this.db) {
+      throw new Error("Database connection has not been initialized");
+    }
+
+    const columns = this.db.prepare("PRAGMA table_info(tax_ledger)").all() as { name: string }[];
+    const existing = new Set(columns.map((column) => column.name));
+
+    if (!existing.has("allocations")) {
+      this.db.exec("ALTER TABLE tax_ledger ADD COLUMN allocations TEXT");
+    }
   }
 
   private createDefaultState(initialBlock: bigint): BotState {
@@ -332,10 +1941,19 @@ export class StateStore {
       version: STATE_VERSION,
       commissionPoolWei: 0n,
       salePoolWei: 0n,
+      reservePoolWei: 0n,
+      operationsPoolWei: 0n,
       pendingBurnAmount: 0n,
       pendingBurnCostWei: 0n,
       activeListings: [],
-      lastTaxBlock: initialBlock
+      unlistedInventory: [],
+      lastTaxBlock: initialBlock,
+      lastFillBlock: initialBlock,
+      taxCheckpoints: [],
+      fillCheckpoints: [],
+      taxRoutes: [],
+      taxStreams: [],
+      revenueCursors: []
     };
   }
 
@@ -357,8 +1975,177 @@ export class StateStore {
   }
 }
 
+function mapTaxLedgerRow(row: TaxLedgerRow): TaxLedgerEntry {
+  return {
+    txHash: row.txHash as TaxLedgerEntry["txHash"],
+    logIndex: row.logIndex,
+    blockNumber: BigInt(row.blockNumber),
+    blockHash: row.blockHash as TaxLedgerEntry["blockHash"],
+    taxId: row.taxId,
+    recipient: row.recipient as TaxLedgerEntry["recipient"],
+    amountWei: BigInt(row.amountWei),
+    // Entries credited before tax routing existed all went to the purchase pool.
+    allocations: row.allocations
+      ? (JSON.parse(row.allocations) as { pool: TaxPool; amountWei: string }[]).map(
+          (allocation) => ({ pool: allocation.pool, amountWei: BigInt(allocation.amountWei) })
+        )
+      : [{ pool: "purchase", amountWei: BigInt(row.amountWei) }]
+  };
+}
+
+function mapListingOrderRow(row: ListingOrderRow): SignedListingOrder {
+  return {
+    orderHash: row.orderHash,
+    protocolAddress: row.protocolAddress as SignedListingOrder["protocolAddress"],
+    components: JSON.parse(row.components) as SignedListingOrder["components"],
+    signature: row.signature as SignedListingOrder["signature"],
+    createdAtMs: row.createdAtMs
+  };
+}
+
+function mapRevenueLedgerRow(row: RevenueLedgerRow): RevenueLedgerEntry {
+  return {
+    sourceId: row.sourceId,
+    entryKey: row.entryKey,
+    blockNumber: BigInt(row.blockNumber),
+    blockHash: row.blockHash as RevenueLedgerEntry["blockHash"],
+    txHash: row.txHash as RevenueLedgerEntry["txHash"],
+    pool: row.pool as TaxPool,
+    amountWei: BigInt(row.amountWei)
+  };
+}
+
+function mapBuybackJobRow(row: BuybackJobRow): BuybackJob {
+  const presigned = (
+    hash: string | null,
+    serialized: string | null,
+    nonce: number | null
+  ): PresignedTransaction | null =>
+    hash ? { hash: hash as Hex, serialized: serialized as Hex | null, nonce } : null;
+  return {
+    id: row.id,
+    status: row.status as BuybackJobStatus,
+    amountInWei: BigInt(row.amountInWei),
+    minAmountOut: BigInt(row.minAmountOut),
+    // Jobs stored before the expected output was kept fall back to the slippage floor.
+    expectedOut: BigInt(row.expectedOut ?? row.minAmountOut),
+    tokenBalanceBeforeSwap: BigInt(row.tokenBalanceBeforeSwap),
+    swapTx: presigned(row.swapTxHash, row.swapRawTx, row.swapNonce),
+    purchasedAmount: row.purchasedAmount === null ? null : BigInt(row.purchasedAmount),
+    sinkPlan: row.sinkPlan === null ? null : parseSinkPlan(row.sinkPlan),
+    sinkLegsDone: row.sinkLegsDone,
+    sinkReverts: row.sinkReverts,
+    tokenBalanceBeforeBurn:
+      row.tokenBalanceBeforeBurn === null ? null : BigInt(row.tokenBalanceBeforeBurn),
+    burnTx: presigned(row.burnTxHash, row.burnRawTx, row.burnNonce),
+    error: row.error,
+    createdAtMs: row.createdAtMs,
+    updatedAtMs: row.updatedAtMs
+  };
+}
+
+function parseSinkPlan(value: string): TokenSinkLeg[] {
+  const legs = JSON.parse(value) as {
+    kind: TokenSinkKind;
+    recipient: string | null;
+    amount: string;
+  }[];
+  return legs.map((leg) => ({
+    kind: leg.kind,
+    recipient: leg.recipient as Address | null,
+    amount: BigInt(leg.amount)
+  }));
+}
+
+function mapListingFillRow(row: ListingFillRow): ListingFillRecord {
+  return {
+    orderHash: row.orderHash,
+    txHash: row.txHash as Hex,
+    logIndex: row.logIndex,
+    blockNumber: BigInt(row.blockNumber),
+    taker: row.taker as Address,
+    collection: row.collection as Address,
+    tokenId: row.tokenId,
+    quantity: BigInt(row.quantity),
+    proceedsWei: BigInt(row.proceedsWei),
+    expectedProceedsWei: BigInt(row.expectedProceedsWei ?? row.proceedsWei)
+  };
+}
+
+function mapCheckpointRow(row: ScanCheckpointRow): ScanCheckpoint {
+  return {
+    fromBlock: BigInt(row.fromBlock),
+    blockNumber: BigInt(row.blockNumber),
+    blockHash: row.blockHash as ScanCheckpoint["blockHash"]
+  };
+}
+
+function parsePricingInputs(value: string): ListingPricingInputs {
+  const raw = JSON.parse(value) as Record<keyof ListingPricingInputs, string | number | null>;
+  const amount = (field: keyof ListingPricingInputs): bigint => BigInt(raw[field] ?? 0);
+  const optionalAmount = (field: keyof ListingPricingInputs): bigint | null =>
+    raw[field] === null || raw[field] === undefined ? null : BigInt(raw[field]);
+
+  return {
+    costBasisWei: amount("costBasisWei"),
+    gasWei: amount("gasWei"),
+    minMarginBps: Number(raw.minMarginBps ?? 0),
+    targetProceedsWei: amount("targetProceedsWei"),
+    minimumPriceWei: amount("minimumPriceWei"),
+    markupPriceWei: amount("markupPriceWei"),
+    collectionSlug: typeof raw.collectionSlug === "string" ? raw.collectionSlug : null,
+    floorPriceWei: optionalAmount("floorPriceWei"),
+    bestListingPriceWei: optionalAmount("bestListingPriceWei"),
+    recentSaleMedianWei: optionalAmount("recentSaleMedianWei"),
+    recentSaleCount: Number(raw.recentSaleCount ?? 0),
+    marketDataAtMs: raw.marketDataAtMs === null ? null : Number(raw.marketDataAtMs),
+    marketLowerBoundWei: optionalAmount("marketLowerBoundWei"),
+    marketUpperBoundWei: optionalAmount("marketUpperBoundWei"),
+    feeSource: raw.feeSource === "collection" ? "collection" : "purchased_order",
+    feeBps: Number(raw.feeBps ?? 0),
+    startPriceWei: amount("startPriceWei"),
+    endPriceWei: amount("endPriceWei")
+  };
+}
+
+function serializeAllocations(allocations: readonly TaxAllocation[]): string {
+  return JSON.stringify(
+    allocations.map((allocation) => ({
+      pool: allocation.pool,
+      amountWei: allocation.amountWei.toString()
+    }))
+  );
+}
+
+function groupTaxRoutes(rows: readonly TaxRouteRow[]): BotState["taxRoutes"] {
+  const routes = new Map<number, { pool: TaxPool; bps: number }[]>();
+  for (const row of rows) {
+    const shares = routes.get(row.taxId) ?? [];
+    shares.push({ pool: row.pool as TaxPool, bps: row.bps });
+    routes.set(row.taxId, shares);
+  }
+  return [...routes].map(([taxId, shares]) => ({ taxId, shares }));
+}
+
+function cloneState(state: BotState): BotState {
+  return {
+    ...state,
+    activeListings: state.activeListings.map((listing) => ({ ...listing })),
+    unlistedInventory: state.unlistedInventory.map((item) => ({ ...item })),
+    taxCheckpoints: [...state.taxCheckpoints],
+    fillCheckpoints: [...state.fillCheckpoints],
+    taxRoutes: state.taxRoutes.map((route) => ({ ...route, shares: [...route.shares] })),
+    taxStreams: state.taxStreams.map((stream) => ({ ...stream })),
+    revenueCursors: state.revenueCursors.map((cursor) => ({
+      ...cursor,
+      checkpoints: [...cursor.checkpoints]
+    }))
+  };
+}
+
 interface LegacySerializedListing {
   readonly orderHash: string;
+  readonly protocolAddress?: string;
   readonly collection: string;
   readonly tokenId: string;
   readonly expectedProceedsWei: string;
@@ -366,14 +2153,20 @@ interface LegacySerializedListing {
   readonly tokenStandard?: string;
   readonly listedQuantity?: string;
   readonly expectedPostSaleBalance?: string | null;
+  readonly postedToOpenSea?: boolean;
+  readonly validatedOnchain?: boolean;
+  readonly filledQuantity?: string;
 }
 
 interface LegacySerializedState {
   readonly version?: number;
   readonly commissionPoolWei: string;
   readonly salePoolWei: string;
+  readonly reservePoolWei?: string;
+  readonly operationsPoolWei?: string;
   readonly activeListings?: LegacySerializedListing[];
   readonly lastTaxBlock?: string;
+  readonly lastFillBlock?: string;
   readonly pendingBurnAmount?: string;
   readonly pendingBurnCostWei?: string;
 }
@@ -386,11 +2179,22 @@ function deserializeLegacyState(raw: LegacySerializedState): BotState {
     version: normalizedVersion,
     commissionPoolWei: BigInt(raw.commissionPoolWei ?? "0"),
     salePoolWei: BigInt(raw.salePoolWei ?? "0"),
+    reservePoolWei: BigInt(raw.reservePoolWei ?? "0"),
+    operationsPoolWei: BigInt(raw.operationsPoolWei ?? "0"),
     pendingBurnAmount: BigInt(raw.pendingBurnAmount ?? "0"),
     pendingBurnCostWei: BigInt(raw.pendingBurnCostWei ?? "0"),
     lastTaxBlock: BigInt(raw.lastTaxBlock ?? "0"),
+    lastFillBlock: BigInt(raw.lastFillBlock ?? raw.lastTaxBlock ?? "0"),
+    taxCheckpoints: [],
+    fillCheckpoints: [],
+    taxRoutes: [],
+    taxStreams: [],
+    revenueCursors: [],
+    unlistedInventory: [],
     activeListings: (raw.activeListings ?? []).map((listing) => ({
       orderHash: listing.orderHash,
+      protocolAddress: (listing.protocolAddress ??
+        LEGACY_LISTING_PROTOCOL_ADDRESS) as ActiveListingState["protocolAddress"],
       collection: listing.collection as ActiveListingState["collection"],
       tokenId: listing.tokenId,
       expectedProceedsWei: BigInt(listing.expectedProceedsWei),
@@ -403,7 +2207,19 @@ function deserializeLegacyState(raw: LegacySerializedState): BotState {
       expectedPostSaleBalance:
         listing.expectedPostSaleBalance !== null && listing.expectedPostSaleBalance !== undefined
           ? BigInt(listing.expectedPostSaleBalance)
-          : null
+          : null,
+      postedToOpenSea: listing.postedToOpenSea ?? false,
+      validatedOnchain: listing.validatedOnchain ?? true,
+      filledQuantity: BigInt(listing.filledQuantity ?? "0"),
+      endTime: null,
+      renewalCount: 0,
+      minProceedsWei: null,
+      pricingInputs: null
     }))
   };
 }
+
+function listColumns(db: Database.Database, schema: string, table: string): string[] {
+  const columns = db.prepare(`PRAGMA ${schema}.table_info(${table})`).all() as { name: string }[];
+  return columns.map((column) => column.name);
+}
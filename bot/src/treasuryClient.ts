@@ -1,17 +1,34 @@
 import type { Chain } from "viem";
 import {
+  BaseError,
+  ContractFunctionRevertedError,
   TransactionNotFoundError,
+  TransactionReceiptNotFoundError,
   createPublicClient,
   createWalletClient,
   defineChain,
-  http
+  encodeFunctionData,
+  http,
+  keccak256
 } from "viem";
 import type { TransactionReceipt } from "viem";
 import { privateKeyToAccount } from "viem/accounts";
 import { base } from "viem/chains";
 
-import { CHAIN_ID, OPERATOR_PRIVATE_KEY, RPC_URL, TREASURY_ADDRESS } from "./config.js";
-import type { Address, ExecuteSeaportRequest, Hex } from "./types.js";
+import { CHAIN_ID, DRY_RUN, OPERATOR_PRIVATE_KEY, RPC_URL, TREASURY_ADDRESS } from "./config.js";
+import {
+  createShadowTxHash,
+  decodeCalldata,
+  isShadowTxHash,
+  recordShadowAction
+} from "./shadow.js";
+import type {
+  Address,
+  ExecuteSeaportRequest,
+  Hex,
+  PresignedTransaction,
+  ShadowActionKind
+} from "./types.js";
 import { logger } from "./utils/logger.js";
 
 const treasuryAbi = [
@@ -89,6 +106,30 @@ export async function getTreasuryBalance(): Promise<bigint> {
 }
 
 export async function executeSeaport(request: ExecuteSeaportRequest): Promise<Hex> {
+  if (DRY_RUN) {
+    return simulateShadowWrite({
+      kind: "executeSeaport",
+      target: request.router,
+      valueWei: request.valueWei,
+      calldata: request.calldata,
+      decoded: {
+        router: request.router,
+        valueWei: request.valueWei,
+        call: decodeCalldata(request.calldata)
+      },
+      simulate: async () => {
+        const { result } = await publicClient.simulateContract({
+          address: TREASURY_ADDRESS,
+          abi: treasuryAbi,
+          functionName: "executeSeaport",
+          args: [request.router, request.valueWei, request.calldata],
+          account
+        });
+        return result;
+      }
+    });
+  }
+
   return writeContractWithAdaptiveFees({
     address: TREASURY_ADDRESS,
     abi: treasuryAbi,
@@ -99,11 +140,148 @@ export async function executeSeaport(request: ExecuteSeaportRequest): Promise<He
   });
 }
 
+/**
+ * Signs an `executeSeaport` call without broadcasting it, so its hash can be stored first. It is
+ * never re-priced, so it is signed at the highest fee multiplier up front. In dry-run mode the
+ * call is simulated as usual and a shadow hash is returned.
+ */
+export async function signExecuteSeaport(
+  request: ExecuteSeaportRequest
+): Promise<PresignedTransaction> {
+  if (DRY_RUN) {
+    return { hash: await executeSeaport(request), serialized: null, nonce: null };
+  }
+
+  const nonce = await acquireNextNonce();
+  const feeOverrides = await estimateFeeOverrides(FEE_MULTIPLIERS[FEE_MULTIPLIERS.length - 1]);
+  const prepared = await walletClient.prepareTransactionRequest({
+    account,
+    chain: walletChain,
+    to: TREASURY_ADDRESS,
+    data: encodeFunctionData({
+      abi: treasuryAbi,
+      functionName: "executeSeaport",
+      args: [request.router, request.valueWei, request.calldata]
+    }),
+    nonce: Number(nonce),
+    type: "eip1559",
+    maxFeePerGas: feeOverrides.maxFeePerGas,
+    maxPriorityFeePerGas: feeOverrides.maxPriorityFeePerGas
+  });
+  const serialized = await walletClient.signTransaction(prepared);
+  incrementNonce();
+  return { hash: keccak256(serialized), serialized, nonce: Number(nonce) };
+}
+
+/**
+ * The receipt fields callers rely on. Shadow transactions answer with a locally built one that
+ * has no gas cost and no logs.
+ */
+export type TreasuryReceipt = Pick<
+  TransactionReceipt,
+  "transactionHash" | "status" | "blockNumber" | "gasUsed" | "effectiveGasPrice" | "logs"
+>;
+
+export type SettledTransaction =
+  | { readonly status: "success" | "reverted"; readonly receipt: TreasuryReceipt }
+  | { readonly status: "dropped" };
+
+/**
+ * Waits for a presigned transaction, broadcasting its stored bytes if the node has not seen it.
+ * It is reported as dropped once its nonce is used by another transaction; it is never re-signed,
+ * so the call it carries can land at most once.
+ */
+export async function settlePresignedTransaction(
+  tx: PresignedTransaction
+): Promise<SettledTransaction> {
+  // Shadow hashes are only remembered in memory, so after a restart a dry-run job is recognised
+  // by the missing signed bytes instead.
+  if (isShadowTxHash(tx.hash) || (DRY_RUN && tx.serialized === null)) {
+    return { status: "success", receipt: await buildShadowReceipt(tx.hash) };
+  }
+
+  const existing = await findReceipt(tx.hash);
+  if (existing) {
+    return settled(existing);
+  }
+
+  if (!(await isTransactionKnown(tx.hash))) {
+    if (tx.serialized === null || tx.nonce === null) {
+      return { status: "dropped" };
+    }
+    const confirmedNonce = await publicClient.getTransactionCount({
+      address: account.address,
+      blockTag: "latest"
+    });
+    if (confirmedNonce > tx.nonce) {
+      const late = await findReceipt(tx.hash);
+      return late ? settled(late) : { status: "dropped" };
+    }
+
+    try {
+      await publicClient.sendRawTransaction({ serializedTransaction: tx.serialized });
+    } catch (error) {
+      const message = error instanceof Error ? error.message.toLowerCase() : String(error);
+      if (!message.includes("already known")) {
+        resetNonceCache();
+        throw error;
+      }
+    }
+  }
+
+  return settled(await publicClient.waitForTransactionReceipt({ hash: tx.hash }));
+}
+
+/**
+ * Runs the exact treasury `executeSeaport` call through `eth_call` from the operator account.
+ * Throws with the revert reason if it would fail.
+ */
+export async function simulateExecuteSeaport(request: ExecuteSeaportRequest): Promise<void> {
+  await publicClient.simulateContract({
+    address: TREASURY_ADDRESS,
+    abi: treasuryAbi,
+    functionName: "executeSeaport",
+    args: [request.router, request.valueWei, request.calldata],
+    account
+  });
+}
+
+/**
+ * True when a contract call failed because the contract reverted, as opposed to the RPC timing
+ * out, rate limiting or otherwise failing to answer.
+ */
+export function isContractRevert(error: unknown): boolean {
+  return (
+    error instanceof BaseError &&
+    error.walk((cause) => cause instanceof ContractFunctionRevertedError) !== null
+  );
+}
+
 export async function setCollectionApproval(
   collection: Address,
   operator: Address,
   approved: boolean
 ): Promise<Hex> {
+  if (DRY_RUN) {
+    return simulateShadowWrite({
+      kind: "setCollectionApproval",
+      target: TREASURY_ADDRESS,
+      valueWei: 0n,
+      calldata: null,
+      decoded: { collection, operator, approved },
+      simulate: async () => {
+        const { result } = await publicClient.simulateContract({
+          address: TREASURY_ADDRESS,
+          abi: treasuryAbi,
+          functionName: "setCollectionApproval",
+          args: [collection, operator, approved],
+          account
+        });
+        return result;
+      }
+    });
+  }
+
   return writeContractWithAdaptiveFees({
     address: TREASURY_ADDRESS,
     abi: treasuryAbi,
@@ -115,13 +293,35 @@ export async function setCollectionApproval(
 }
 
 export async function topUpTreasury(amountWei: bigint): Promise<Hex> {
+  if (DRY_RUN) {
+    return simulateShadowWrite({
+      kind: "topUpTreasury",
+      target: TREASURY_ADDRESS,
+      valueWei: amountWei,
+      calldata: null,
+      decoded: { amountWei },
+      simulate: async () => {
+        const { data } = await publicClient.call({
+          account,
+          to: TREASURY_ADDRESS,
+          value: amountWei
+        });
+        return data ?? null;
+      }
+    });
+  }
+
   return sendTransactionWithAdaptiveFees({
     to: TREASURY_ADDRESS,
     value: amountWei
   });
 }
 
-export async function waitForReceipt(txHash: Hex): Promise<TransactionReceipt> {
+export async function waitForReceipt(txHash: Hex): Promise<TreasuryReceipt> {
+  if (isShadowTxHash(txHash)) {
+    return buildShadowReceipt(txHash);
+  }
+
   try {
     const receipt = await publicClient.waitForTransactionReceipt({ hash: txHash });
     if (receipt.status !== "success") {
@@ -152,6 +352,85 @@ export async function signTypedDataWithOperator(params: OperatorSignTypedDataPar
 export { treasuryAbi };
 export const operatorAccount = account;
 
+async function findReceipt(txHash: Hex): Promise<TransactionReceipt | null> {
+  try {
+    return await publicClient.getTransactionReceipt({ hash: txHash });
+  } catch (error) {
+    if (error instanceof TransactionReceiptNotFoundError) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+async function isTransactionKnown(txHash: Hex): Promise<boolean> {
+  try {
+    await publicClient.getTransaction({ hash: txHash });
+    return true;
+  } catch (error) {
+    if (error instanceof TransactionNotFoundError) {
+      return false;
+    }
+    throw error;
+  }
+}
+
+function settled(receipt: TreasuryReceipt): SettledTransaction {
+  return { status: receipt.status === "success" ? "success" : "reverted", receipt };
+}
+
+interface ShadowWriteParams {
+  readonly kind: ShadowActionKind;
+  readonly target: Address;
+  readonly valueWei: bigint;
+  readonly calldata: Hex | null;
+  readonly decoded: unknown;
+  readonly simulate: () => Promise<unknown>;
+}
+
+async function simulateShadowWrite(params: ShadowWriteParams): Promise<Hex> {
+  try {
+    const simulation = await params.simulate();
+    const txHash = createShadowTxHash(params.calldata);
+    recordShadowAction({
+      kind: params.kind,
+      target: params.target,
+      valueWei: params.valueWei,
+      calldata: params.calldata,
+      decoded: params.decoded,
+      simulation: { success: true, result: simulation ?? null },
+      txHash
+    });
+    return txHash;
+  } catch (error) {
+    recordShadowAction({
+      kind: params.kind,
+      target: params.target,
+      valueWei: params.valueWei,
+      calldata: params.calldata,
+      decoded: params.decoded,
+      simulation: {
+        success: false,
+        error: error instanceof Error ? error.message : String(error)
+      },
+      txHash: null
+    });
+    throw error;
+  }
+}
+
+async function buildShadowReceipt(txHash: Hex): Promise<TreasuryReceipt> {
+  const blockNumber = await publicClient.getBlockNumber();
+  return {
+    transactionHash: txHash,
+    status: "success",
+    blockNumber,
+    gasUsed: 0n,
+    effectiveGasPrice: 0n,
+    logs: []
+  };
+}
+
 interface AdaptiveSendParams {
   readonly to: Address;
   readonly value: bigint;
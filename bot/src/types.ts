@@ -1,3 +1,5 @@
+import type { OrderComponents } from "@opensea/seaport-js/lib/types.js";
+
 export type Hex = `0x${string}`;
 export type Address = `0x${string}`;
 
@@ -14,6 +16,7 @@ export interface ExecutionPayload {
   readonly valueWei: bigint;
   readonly priceWei?: bigint;
   readonly source?: string;
+  readonly orderHash?: string;
   readonly openSeaMetadata?: OpenSeaListingBlueprint;
 }
 
@@ -48,6 +51,7 @@ export type TokenStandard = "erc721" | "erc1155";
 
 export interface ActiveListingState {
   readonly orderHash: string;
+  readonly protocolAddress: Address;
   readonly collection: Address;
   readonly tokenId: string;
   readonly expectedProceedsWei: bigint;
@@ -55,14 +59,258 @@ export interface ActiveListingState {
   readonly tokenStandard: TokenStandard;
   readonly listedQuantity: bigint;
   readonly expectedPostSaleBalance: bigint | null;
+  readonly postedToOpenSea: boolean;
+  readonly validatedOnchain: boolean;
+  readonly filledQuantity: bigint;
+  /** Order end time in unix seconds; null for listings stored before it was tracked. */
+  readonly endTime: number | null;
+  readonly renewalCount: number;
+  /** Treasury proceeds that recover cost, gas and minimum margin; null if never priced for it. */
+  readonly minProceedsWei: bigint | null;
+  /** How the listing price was chosen; null for listings created before it was recorded. */
+  readonly pricingInputs: ListingPricingInputs | null;
+}
+
+export type ListingFeeSource = "collection" | "purchased_order";
+
+export interface ListingPricingInputs {
+  readonly costBasisWei: bigint;
+  readonly gasWei: bigint;
+  readonly minMarginBps: number;
+  readonly targetProceedsWei: bigint;
+  readonly minimumPriceWei: bigint;
+  readonly markupPriceWei: bigint;
+  readonly collectionSlug: string | null;
+  readonly floorPriceWei: bigint | null;
+  readonly bestListingPriceWei: bigint | null;
+  readonly recentSaleMedianWei: bigint | null;
+  readonly recentSaleCount: number;
+  readonly marketDataAtMs: number | null;
+  readonly marketLowerBoundWei: bigint | null;
+  readonly marketUpperBoundWei: bigint | null;
+  /** Whether fees came from the collection's current requirements or the purchased order. */
+  readonly feeSource: ListingFeeSource;
+  readonly feeBps: number;
+  readonly startPriceWei: bigint;
+  readonly endPriceWei: bigint;
+}
+
+export interface SignedListingOrder {
+  readonly orderHash: string;
+  readonly protocolAddress: Address;
+  readonly components: OrderComponents;
+  readonly signature: Hex;
+  readonly createdAtMs: number;
+}
+
+export interface UnlistedInventoryItem {
+  readonly collection: Address;
+  readonly tokenId: string;
+  readonly tokenStandard: TokenStandard;
+  readonly quantity: bigint;
+  readonly reason: string;
+  readonly sinceMs: number;
+}
+
+export interface ListingFillRecord {
+  readonly orderHash: string;
+  readonly txHash: Hex;
+  readonly logIndex: number;
+  readonly blockNumber: bigint;
+  readonly taker: Address;
+  readonly collection: Address;
+  readonly tokenId: string;
+  readonly quantity: bigint;
+  readonly proceedsWei: bigint;
+  /** What the order owed the treasury at the fill's block time. */
+  readonly expectedProceedsWei: bigint;
+}
+
+export interface ListingAnomalyRecord {
+  readonly orderHash: string;
+  readonly collection: Address;
+  readonly tokenId: string;
+  readonly blockNumber: bigint;
+  readonly reason: string;
+}
+
+export type OrderValidationSource = "validator" | "status" | "simulation";
+
+/** One reason a marketplace order cannot be filled, as reported before buying it. */
+export interface OrderValidationIssue {
+  readonly source: OrderValidationSource;
+  /** Validator error code, or a short identifier such as `cancelled` or `revert`. */
+  readonly code: string;
+  readonly message: string;
+}
+
+export interface BlockedOrderRecord {
+  readonly orderHash: string;
+  readonly issues: readonly OrderValidationIssue[];
+  readonly blockedAtMs: number;
+}
+
+export interface ScanCheckpoint {
+  readonly fromBlock: bigint;
+  readonly blockNumber: bigint;
+  readonly blockHash: Hex;
+}
+
+export type TaxPool = "purchase" | "buyback" | "reserve" | "operations";
+
+export interface TaxRouteShare {
+  readonly pool: TaxPool;
+  readonly bps: number;
+}
+
+export interface TaxRoute {
+  readonly taxId: number;
+  readonly shares: readonly TaxRouteShare[];
+}
+
+export interface TaxAllocation {
+  readonly pool: TaxPool;
+  readonly amountWei: bigint;
+}
+
+export interface TaxStreamBalance {
+  readonly taxId: number;
+  readonly pool: TaxPool;
+  readonly creditedWei: bigint;
+}
+
+export interface TaxLedgerEntry {
+  readonly txHash: Hex;
+  readonly logIndex: number;
+  readonly blockNumber: bigint;
+  readonly blockHash: Hex;
+  readonly taxId: number;
+  readonly recipient: Address;
+  readonly amountWei: bigint;
+  readonly allocations: readonly TaxAllocation[];
+}
+
+export interface RevenueCursor {
+  readonly sourceId: string;
+  readonly lastBlock: bigint;
+  readonly checkpoints: readonly ScanCheckpoint[];
+  readonly creditedWei: bigint;
+}
+
+export interface RevenueLedgerEntry {
+  readonly sourceId: string;
+  readonly entryKey: string;
+  readonly blockNumber: bigint;
+  readonly blockHash: Hex;
+  readonly txHash: Hex | null;
+  readonly pool: TaxPool;
+  readonly amountWei: bigint;
+}
+
+export interface TreasuryOutflowRecord {
+  readonly txHash: Hex;
+  readonly blockNumber: bigint;
+  readonly amountWei: bigint;
+  readonly reason: string;
+}
+
+/** One time-weighted part of a buyback schedule; open while `spentWei < amountWei`. */
+export interface BuybackSlice {
+  readonly id: number;
+  readonly scheduleId: number;
+  readonly dueAtMs: number;
+  readonly amountWei: bigint;
+  readonly spentWei: bigint;
+}
+
+/** A signed transaction whose hash is known, and stored, before it is broadcast. */
+export interface PresignedTransaction {
+  readonly hash: Hex;
+  /** Null for dry-run shadow transactions, which are never broadcast. */
+  readonly serialized: Hex | null;
+  readonly nonce: number | null;
+}
+
+export type TokenSinkKind = "transfer" | "burn";
+
+/** One destination of a buyback's tokens, sent in its own transaction. */
+export interface TokenSinkLeg {
+  readonly kind: TokenSinkKind;
+  /** Null for `burn`. */
+  readonly recipient: Address | null;
+  readonly amount: bigint;
+}
+
+export type BuybackJobStatus =
+  | "planned"
+  | "swap_submitted"
+  | "swap_confirmed"
+  | "burn_submitted"
+  | "burned"
+  | "failed";
+
+/**
+ * One buyback moving through its steps. Each transaction is stored before it is broadcast, so
+ * a restart resumes from receipts. The token balances are kept for the record; amounts are read
+ * from the receipts' transfer logs.
+ */
+export interface BuybackJob {
+  readonly id: number;
+  readonly status: BuybackJobStatus;
+  readonly amountInWei: bigint;
+  readonly minAmountOut: bigint;
+  /** Tokens the quote expected the treasury to receive; used instead of the logs in dry runs. */
+  readonly expectedOut: bigint;
+  readonly tokenBalanceBeforeSwap: bigint;
+  readonly swapTx: PresignedTransaction | null;
+  /** Tokens the swap's logs show reaching the treasury; set once it is confirmed. */
+  readonly purchasedAmount: bigint | null;
+  /** How the purchased tokens are split across the sinks; fixed when the swap is confirmed. */
+  readonly sinkPlan: readonly TokenSinkLeg[] | null;
+  /** Legs of `sinkPlan` already sent and verified. */
+  readonly sinkLegsDone: number;
+  /** Sink transactions of this job that reverted on chain. */
+  readonly sinkReverts: number;
+  readonly tokenBalanceBeforeBurn: bigint | null;
+  readonly burnTx: PresignedTransaction | null;
+  readonly error: string | null;
+  readonly createdAtMs: number;
+  readonly updatedAtMs: number;
 }
 
 export interface BotState {
   readonly version: number;
   commissionPoolWei: bigint;
   salePoolWei: bigint;
+  reservePoolWei: bigint;
+  operationsPoolWei: bigint;
   pendingBurnAmount: bigint;
   pendingBurnCostWei: bigint;
   activeListings: ActiveListingState[];
+  unlistedInventory: UnlistedInventoryItem[];
   lastTaxBlock: bigint;
+  lastFillBlock: bigint;
+  taxCheckpoints: ScanCheckpoint[];
+  fillCheckpoints: ScanCheckpoint[];
+  taxRoutes: TaxRoute[];
+  taxStreams: TaxStreamBalance[];
+  revenueCursors: RevenueCursor[];
+}
+
+export type ShadowActionKind =
+  | "executeSeaport"
+  | "setCollectionApproval"
+  | "topUpTreasury"
+  | "signOrder"
+  | "postListing"
+  | "poolChange";
+
+export interface ShadowAction {
+  readonly kind: ShadowActionKind;
+  readonly target: Address | null;
+  readonly valueWei: bigint;
+  readonly calldata: Hex | null;
+  readonly decoded: unknown;
+  readonly simulation: unknown;
+  readonly txHash: Hex | null;
 }
@@ -0,0 +1,157 @@
+import {
+  LOG_FETCH_THROTTLE_MS,
+  LOG_INITIAL_SPAN,
+  LOG_MAX_SPAN,
+  LOG_SPAN_GROW_MAX_MS,
+  LOG_SPAN_GROW_MAX_RESULTS
+} from "../config.js";
+import { logger } from "./logger.js";
+import { delay } from "./time.js";
+
+export interface LogScanOptions<T> {
+  readonly label: string;
+  readonly fromBlock: bigint;
+  readonly toBlock: bigint;
+  readonly fetchRange: (fromBlock: bigint, toBlock: bigint) => Promise<T[]>;
+  /** Called after each fetched range; returning `false` stops the scan after that range. */
+  readonly onRange?: (
+    items: T[],
+    fromBlock: bigint,
+    toBlock: bigint
+  ) => Promise<boolean | void> | boolean | void;
+}
+
+const PROGRESS_LOG_INTERVAL_MS = 10_000;
+
+const RANGE_LIMIT_PATTERNS = [
+  "block range",
+  "range too large",
+  "range is too large",
+  "too many results",
+  "too many logs",
+  "query returned more than",
+  "response size exceeded",
+  "response size is larger",
+  "log limit exceeded",
+  "exceed maximum block range",
+  "query timeout exceeded"
+];
+
+// Throttling responses often mention a "limit exceeded" too, but must not shrink the span.
+const RATE_LIMIT_PATTERNS = ["rate limit", "too many requests", "status: 429"];
+
+// Spans are remembered per scanner label so that each caller resumes at the size the RPC
+// last accepted instead of relearning it every tick.
+const spansByLabel = new Map<string, bigint>();
+
+/**
+ * Fetches logs for an inclusive block range in chunks whose size adapts to the RPC: the span
+ * doubles while responses are small and fast, and a chunk is split in half when the provider
+ * rejects it as too large.
+ */
+export async function scanLogsAdaptively<T>(options: LogScanOptions<T>): Promise<T[]> {
+  const results: T[] = [];
+  if (options.fromBlock > options.toBlock) {
+    return results;
+  }
+
+  const totalBlocks = options.toBlock - options.fromBlock + 1n;
+  let span = spansByLabel.get(options.label) ?? LOG_INITIAL_SPAN;
+  let cursor = options.fromBlock;
+  let lastProgressLogMs = Date.now();
+
+  while (cursor <= options.toBlock) {
+    const rangeEnd = cursor + (span - 1n);
+    const toBlock = rangeEnd > options.toBlock ? options.toBlock : rangeEnd;
+
+    const startedAtMs = Date.now();
+    let items: T[];
+    try {
+      items = await options.fetchRange(cursor, toBlock);
+    } catch (error) {
+      const requestedSpan = toBlock - cursor + 1n;
+      if (!isRangeLimitError(error) || requestedSpan <= 1n) {
+        throw error;
+      }
+      span = requestedSpan / 2n;
+      spansByLabel.set(options.label, span);
+      logger.debug(
+        {
+          label: options.label,
+          fromBlock: cursor.toString(),
+          toBlock: toBlock.toString(),
+          nextSpan: span.toString(),
+          err: error instanceof Error ? error.message : String(error)
+        },
+        "RPC rejected log range; splitting"
+      );
+      continue;
+    }
+    const elapsedMs = Date.now() - startedAtMs;
+
+    results.push(...items);
+    if (options.onRange && (await options.onRange(items, cursor, toBlock)) === false) {
+      break;
+    }
+
+    if (
+      items.length <= LOG_SPAN_GROW_MAX_RESULTS &&
+      elapsedMs <= LOG_SPAN_GROW_MAX_MS &&
+      span < LOG_MAX_SPAN
+    ) {
+      span = span * 2n > LOG_MAX_SPAN ? LOG_MAX_SPAN : span * 2n;
+    } else if (elapsedMs > LOG_SPAN_GROW_MAX_MS * 2 && span > 1n) {
+      span /= 2n;
+    }
+    spansByLabel.set(options.label, span);
+
+    cursor = toBlock + 1n;
+
+    if (cursor <= options.toBlock && Date.now() - lastProgressLogMs >= PROGRESS_LOG_INTERVAL_MS) {
+      lastProgressLogMs = Date.now();
+      const scannedBlocks = cursor - options.fromBlock;
+      logger.info(
+        {
+          label: options.label,
+          fromBlock: options.fromBlock.toString(),
+          toBlock: options.toBlock.toString(),
+          cursor: cursor.toString(),
+          remainingBlocks: (options.toBlock - cursor + 1n).toString(),
+          progressPct: Number((scannedBlocks * 10_000n) / totalBlocks) / 100,
+          span: span.toString()
+        },
+        "Catching up on logs"
+      );
+    }
+
+    if (cursor <= options.toBlock && LOG_FETCH_THROTTLE_MS > 0) {
+      await delay(LOG_FETCH_THROTTLE_MS);
+    }
+  }
+
+  return results;
+}
+
+function isRangeLimitError(error: unknown): boolean {
+  let current: unknown = error;
+  for (let depth = 0; depth < 5 && current; depth += 1) {
+    if (current instanceof Error) {
+      const details = (current as { details?: unknown }).details;
+      const text = `${current.message} ${typeof details === "string" ? details : ""}`.toLowerCase();
+      if (isRangeLimitText(text)) {
+        return true;
+      }
+      current = (current as { cause?: unknown }).cause;
+    } else {
+      return isRangeLimitText(String(current).toLowerCase());
+    }
+  }
+  return false;
+}
+
+function isRangeLimitText(text: string): boolean {
+  if (RATE_LIMIT_PATTERNS.some((pattern) => text.includes(pattern))) {
+    return false;
+  }
+  return RANGE_LIMIT_PATTERNS.some((pattern) => text.includes(pattern));
+}
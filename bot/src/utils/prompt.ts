@@ -0,0 +1,12 @@
+import { createInterface } from "node:readline/promises";
+
+/** Asks a question on the terminal and resolves true only when the operator types "yes". */
+export async function confirm(question: string): Promise<boolean> {
+  const prompt = createInterface({ input: process.stdin, output: process.stdout });
+  try {
+    const answer = await prompt.question(question);
+    return answer.trim().toLowerCase() === "yes";
+  } finally {
+    prompt.close();
+  }
+}
@@ -0,0 +1,21 @@
+export function serializeForLog(value: unknown): unknown {
+  if (typeof value === "bigint") {
+    return value.toString();
+  }
+  if (Array.isArray(value)) {
+    return value.map(serializeForLog);
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value as Record<string, unknown>).map(([key, entryValue]) => [
+        key,
+        serializeForLog(entryValue)
+      ])
+    );
+  }
+  return value;
+}
+
+export function stringifyForStorage(value: unknown): string {
+  return JSON.stringify(serializeForLog(value));
+}